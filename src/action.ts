@@ -5,8 +5,9 @@
 import * as core from '@actions/core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { BaselineConfig } from './types';
+import { BaselineConfig, Framework } from './types';
 import { Analyzer } from './core/Analyzer';
+import { BaselineChecker } from './core/BaselineChecker';
 import { JSONReporter } from './reporters/JSONReporter';
 
 async function run(): Promise<void> {
@@ -20,6 +21,8 @@ async function run(): Promise<void> {
     const outputFile = core.getInput('output-file') || 'baselineflow-report.json';
     const ignorePatterns = core.getInput('ignore-patterns');
     const framework = core.getInput('framework') || 'auto';
+    const dataFile = core.getInput('data-file');
+    const engine = core.getInput('engine');
 
     core.info(`🚀 Starting BaselineFlow analysis...`);
     core.info(`📂 Analyzing path: ${projectPath}`);
@@ -32,7 +35,9 @@ async function run(): Promise<void> {
       failOnWarning,
       outputFile,
       ignorePatterns: ignorePatterns ? ignorePatterns.split(',').map((p: string) => p.trim()) : [],
-      framework: framework as any
+      framework,
+      dataFile,
+      engine
     });
 
     // Run analysis
@@ -54,6 +59,7 @@ async function run(): Promise<void> {
     core.setOutput('compatibility-score', result.summary.compatibilityScore);
     core.setOutput('errors-count', result.summary.errors);
     core.setOutput('warnings-count', result.summary.warnings);
+    core.setOutput('suppressed-count', result.summary.suppressed);
     core.setOutput('report-file', outputFile);
 
     // Create summary
@@ -92,9 +98,25 @@ async function loadConfiguration(configPath: string, inputs: any): Promise<Basel
     }
   }
 
+  const target = inputs.target || config.target || 'widely-available';
+  if (!BaselineChecker.isValidTarget(target)) {
+    throw new Error(`Invalid target "${target}". Use widely-available, newly-available, limited, browsers or baseline-<year>`);
+  }
+
+  const framework = inputs.framework || config.framework || 'auto';
+  const frameworks: Framework[] = ['react', 'vue', 'angular', 'svelte', 'auto'];
+  if (!frameworks.includes(framework)) {
+    throw new Error(`Invalid framework "${framework}". Use react, vue, angular, svelte or auto`);
+  }
+
+  const engine = inputs.engine || config.engine || 'ast';
+  if (!['ast', 'regex'].includes(engine)) {
+    throw new Error(`Invalid engine "${engine}". Use ast or regex`);
+  }
+
   // Merge with inputs
   return {
-    target: inputs.target || config.target || 'widely-available',
+    target,
     browsers: config.browsers || ['chrome', 'firefox', 'safari', 'edge'],
     exceptions: config.exceptions || [],
     ignoreFiles: [
@@ -104,9 +126,17 @@ async function loadConfiguration(configPath: string, inputs: any): Promise<Basel
       'dist/**',
       'build/**'
     ],
-    framework: inputs.framework || config.framework || 'auto',
+    framework: framework as Framework,
     generateFixes: config.generateFixes || true,
-    reportFormat: 'json'
+    reportFormat: 'json',
+    dataFile: inputs.dataFile || config.dataFile,
+    discouragedSeverity: config.discouragedSeverity,
+    guardedSeverity: config.guardedSeverity,
+    aliases: config.aliases,
+    detectors: config.detectors,
+    cssTemplateTags: config.cssTemplateTags,
+    typeCheck: config.typeCheck,
+    engine
   } as BaselineConfig;
 }
 
@@ -126,7 +156,10 @@ async function createSummary(result: any, reportFile: string): Promise<void> {
     ['Features Found', result.totalFeatures.toString()],
     ['❌ Errors', result.summary.errors.toString()],
     ['⚠️ Warnings', result.summary.warnings.toString()],
-    ['💡 Suggestions', result.summary.suggestions.toString()]
+    ['💡 Suggestions', result.summary.suggestions.toString()],
+    ['🙈 Suppressed', result.summary.suppressed.toString()],
+    ['🛡️ Guarded', result.summary.guarded.toString()],
+    ['📦 web-features Data', `${result.data.version}${result.data.date ? ` (${result.data.date})` : ''}`]
   ]);
 
   // Violations section
@@ -160,6 +193,14 @@ async function createSummary(result: any, reportFile: string): Promise<void> {
     summary.addTable(violationRows);
   }
 
+  // Expired exceptions
+  if (result.staleExceptions.length > 0) {
+    summary.addHeading('⌛ Stale Exceptions', 2);
+    summary.addList(result.staleExceptions.map((exception: any) =>
+      `\`${exception.feature}\` expired ${exception.expires}: ${exception.reason}`
+    ));
+  }
+
   // Modernization opportunities
   if (result.modernizationOpportunities.length > 0) {
     summary.addHeading('🔄 Modernization Opportunities', 2);
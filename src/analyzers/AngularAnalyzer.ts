@@ -0,0 +1,162 @@
+import * as path from 'path';
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import { FeatureUsage, FileAnalysis, ResolutionDiagnostic } from '../types';
+import { CSSAnalyzer } from './CSSAnalyzer';
+import { HTMLAnalyzer } from './HTMLAnalyzer';
+import { EmbeddedSource } from './EmbeddedSource';
+
+/**
+ * Angular style syntax that is compiled away under emulated encapsulation
+ */
+const ANGULAR_STYLE_TOKENS = [':host', ':host-context', '::ng-deep'];
+
+/**
+ * Analyzes the templates and styles declared in Angular `@Component` metadata.
+ * Inline templates and styles are analyzed in place; `templateUrl`, `styleUrl`
+ * and `styleUrls` are returned as resources for the caller to analyze.
+ */
+export class AngularAnalyzer {
+  private htmlAnalyzer: HTMLAnalyzer;
+  private cssAnalyzer: CSSAnalyzer;
+
+  constructor(htmlAnalyzer: HTMLAnalyzer, cssAnalyzer: CSSAnalyzer) {
+    this.htmlAnalyzer = htmlAnalyzer;
+    this.cssAnalyzer = cssAnalyzer;
+  }
+
+  public async analyze(content: string, filePath: string): Promise<FileAnalysis> {
+    const features: FeatureUsage[] = [];
+    const diagnostics: ResolutionDiagnostic[] = [];
+    const resources: string[] = [];
+    const fallbackReasons: Array<string | undefined> = [];
+
+    try {
+      for (const metadata of this.findComponentMetadata(content, filePath)) {
+        for (const property of metadata.properties) {
+          if (!t.isObjectProperty(property) || !t.isIdentifier(property.key)) {
+            continue;
+          }
+
+          const values = t.isArrayExpression(property.value) ? property.value.elements : [property.value];
+
+          for (const value of values) {
+            const source = this.getStringSource(value, content);
+            if (source === undefined || value?.start == null) {
+              continue;
+            }
+
+            const name = property.key.name;
+            if (name === 'template') {
+              fallbackReasons.push(await this.analyzeInline(this.htmlAnalyzer, source, value.start + 1, content, filePath, features, diagnostics));
+            } else if (name === 'styles') {
+              await this.analyzeInline(this.cssAnalyzer, source, value.start + 1, content, filePath, features, diagnostics);
+            } else if (['templateUrl', 'styleUrl', 'styleUrls'].includes(name)) {
+              resources.push(path.resolve(path.dirname(filePath), source.trim()));
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to parse Angular component ${filePath}:`, error);
+    }
+
+    return {
+      file: filePath,
+      type: 'typescript',
+      framework: 'angular',
+      features,
+      diagnostics,
+      resources,
+      fallbackReason: EmbeddedSource.joinFallbackReasons(fallbackReasons)
+    };
+  }
+
+  private findComponentMetadata(content: string, filePath: string): t.ObjectExpression[] {
+    const metadata: t.ObjectExpression[] = [];
+    const ast = parse(content, {
+      sourceType: 'module',
+      plugins: [
+        'decorators-legacy',
+        'typescript',
+        ...(filePath.endsWith('.tsx') ? ['jsx' as const] : [])
+      ]
+    });
+
+    traverse(ast, {
+      Decorator: (path) => {
+        const expression = path.node.expression;
+        if (
+          t.isCallExpression(expression) &&
+          t.isIdentifier(expression.callee, { name: 'Component' }) &&
+          t.isObjectExpression(expression.arguments[0])
+        ) {
+          metadata.push(expression.arguments[0]);
+        }
+      }
+    });
+
+    return metadata;
+  }
+
+  /**
+   * Get the source text of a string or template literal as written, with any
+   * interpolations blanked out so offsets still line up with the file
+   */
+  private getStringSource(node: t.Node | null | undefined, content: string): string | undefined {
+    if (!node || node.start == null || node.end == null) {
+      return undefined;
+    }
+
+    if (t.isStringLiteral(node)) {
+      return content.slice(node.start + 1, node.end - 1);
+    }
+
+    if (t.isTemplateLiteral(node)) {
+      let source = content.slice(node.start + 1, node.end - 1);
+      for (const expression of node.expressions) {
+        if (expression.start == null || expression.end == null) {
+          continue;
+        }
+        // Include the surrounding "${" and "}"
+        const start = expression.start - 2 - (node.start + 1);
+        const end = expression.end + 1 - (node.start + 1);
+        source = source.slice(0, start) + ' '.repeat(end - start) + source.slice(end);
+      }
+      return source;
+    }
+
+    return undefined;
+  }
+
+  private async analyzeInline(
+    analyzer: HTMLAnalyzer | CSSAnalyzer,
+    source: string,
+    startOffset: number,
+    content: string,
+    filePath: string,
+    features: FeatureUsage[],
+    diagnostics: ResolutionDiagnostic[]
+  ): Promise<string | undefined> {
+    if (!source.trim()) {
+      return undefined;
+    }
+
+    const virtualPath = analyzer === this.cssAnalyzer ? `${filePath}.css` : filePath;
+    const analysis = await analyzer.analyze(source, virtualPath);
+    const mapped = EmbeddedSource.mapAnalysis(analysis, EmbeddedSource.getPosition(content, startOffset), filePath);
+
+    features.push(...mapped.features);
+    diagnostics.push(...AngularAnalyzer.filterStyleDiagnostics(mapped.diagnostics));
+    return mapped.fallbackReason;
+  }
+
+  /**
+   * Drop lookups of Angular style syntax, such as :host, from a component's
+   * inline or external styles
+   */
+  public static filterStyleDiagnostics(diagnostics: ResolutionDiagnostic[]): ResolutionDiagnostic[] {
+    return diagnostics.filter(diagnostic => !ANGULAR_STYLE_TOKENS.includes(diagnostic.query));
+  }
+}
\ No newline at end of file
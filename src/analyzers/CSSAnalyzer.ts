@@ -1,13 +1,84 @@
 import * as postcss from 'postcss';
 import selectorParser from 'postcss-selector-parser';
-import { FeatureUsage, FileAnalysis } from '../types';
+import * as postcssScss from 'postcss-scss';
+import * as postcssSass from 'postcss-sass';
+import * as postcssLess from 'postcss-less';
+import { FeatureUsage, FileAnalysis, FeatureResolution, ResolutionDiagnostic } from '../types';
 import { BaselineChecker } from '../core/BaselineChecker';
 
+/**
+ * CSS functions mapped to web-features IDs, for functions whose names alone
+ * don't resolve or resolve to the wrong feature (round() isn't Math.round)
+ */
+const CSS_FUNCTION_FEATURES: Record<string, string> = {
+  'rgb': 'rgb',
+  'rgba': 'rgb',
+  'hsl': 'hsl',
+  'hsla': 'hsl',
+  'hwb': 'hwb',
+  'lab': 'lab',
+  'lch': 'lab',
+  'oklab': 'oklab',
+  'oklch': 'oklab',
+  'color': 'color-function',
+  'color-mix': 'color-mix',
+  'light-dark': 'light-dark',
+  'calc': 'calc',
+  'min': 'min-max-clamp',
+  'max': 'min-max-clamp',
+  'clamp': 'min-max-clamp',
+  'round': 'round-mod-rem',
+  'mod': 'round-mod-rem',
+  'rem': 'round-mod-rem',
+  'sin': 'trig-functions',
+  'cos': 'trig-functions',
+  'tan': 'trig-functions',
+  'asin': 'trig-functions',
+  'acos': 'trig-functions',
+  'atan': 'trig-functions',
+  'atan2': 'trig-functions',
+  'pow': 'exp-functions',
+  'sqrt': 'exp-functions',
+  'hypot': 'exp-functions',
+  'log': 'exp-functions',
+  'exp': 'exp-functions',
+  'abs': 'abs-sign',
+  'sign': 'abs-sign'
+};
+
+/**
+ * Color functions that accept relative color syntax: rgb(from var(--brand) r g b / 50%)
+ */
+const RELATIVE_COLOR_FUNCTIONS = ['rgb', 'rgba', 'hsl', 'hsla', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'color'];
+
+/**
+ * Pseudo-classes and pseudo-elements mapped to web-features IDs where their
+ * css.selectors compat key doesn't resolve on its own
+ */
+const PSEUDO_SELECTOR_FEATURES: Record<string, string> = {
+  // web-features tracks ::backdrop with the elements it applies to, first of all <dialog>
+  'backdrop': 'dialog'
+};
+
+/**
+ * Sass and Less at-rules that are compiled away. Their children, such as
+ * the body of a @mixin or an @if, still end up in the CSS.
+ */
+const PREPROCESSOR_AT_RULES = [
+  'use', 'forward', 'import', 'mixin', 'include', 'content', 'extend', 'at-root',
+  'if', 'else', 'each', 'for', 'while', 'debug', 'warn', 'error', 'plugin'
+];
+
+type Preprocessor = 'scss' | 'sass' | 'less';
+
 /**
  * Analyzes CSS files for web feature usage
  */
 export class CSSAnalyzer {
   private baselineChecker: BaselineChecker;
+  private diagnostics: ResolutionDiagnostic[] = [];
+  private supportsGuards = new WeakMap<postcss.AtRule, Set<string>>();
+  private preprocessor?: Preprocessor;
 
   constructor(baselineChecker: BaselineChecker) {
     this.baselineChecker = baselineChecker;
@@ -15,9 +86,11 @@ export class CSSAnalyzer {
 
   public async analyze(content: string, filePath: string): Promise<FileAnalysis> {
     const features: FeatureUsage[] = [];
+    this.diagnostics = [];
+    this.preprocessor = this.getPreprocessor(filePath);
     
     try {
-      const root = postcss.parse(content, { from: filePath });
+      const root = this.parse(content, filePath);
       
       // Analyze CSS properties, values, and selectors
       root.walkDecls((decl) => {
@@ -28,6 +101,13 @@ export class CSSAnalyzer {
         this.analyzeSelector(rule, features, filePath);
       });
 
+      // Preprocessors compile their nesting away
+      if (!this.preprocessor) {
+        root.walk((node) => {
+          this.analyzeNesting(node, features, filePath);
+        });
+      }
+
       root.walkAtRules((atRule) => {
         this.analyzeAtRule(atRule, features, filePath);
       });
@@ -39,13 +119,115 @@ export class CSSAnalyzer {
     return {
       file: filePath,
       type: 'css',
-      features
+      features,
+      diagnostics: this.diagnostics
     };
   }
 
+  private getPreprocessor(filePath: string): Preprocessor | undefined {
+    const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+    return extension === 'scss' || extension === 'sass' || extension === 'less' ? extension : undefined;
+  }
+
+  /**
+   * Parse with the file's syntax and reduce Sass and Less to the CSS they
+   * compile to: variables and functions are removed, nested properties are
+   * flattened and nested selectors are resolved against their parents
+   */
+  private parse(content: string, filePath: string): postcss.Root {
+    if (!this.preprocessor) {
+      return postcss.parse(content, { from: filePath });
+    }
+
+    const syntax = { scss: postcssScss, sass: postcssSass, less: postcssLess }[this.preprocessor];
+    const root: postcss.Root = syntax.parse(content, { from: filePath });
+
+    if (this.preprocessor === 'sass') {
+      this.linkParents(root);
+    }
+
+    root.walk((node) => {
+      if (node.type === 'decl' && /^[$@]/.test(node.prop)) {
+        // $brand: #333, and Less variables inside mixin calls
+        node.remove();
+      } else if (node.type === 'atrule' && (this.isLessVariableOrMixin(node) || node.name === 'function')) {
+        // @brand: #333, .mixin(); and @function bodies in Less and SCSS
+        node.remove();
+      } else if (node.type === 'rule' && /^@/.test(node.selector)) {
+        // The indented Sass parser reads nested at-rules as rules
+        const [, name, params] = /^@([\w-]+)\s*(.*)$/.exec(node.selector) || [];
+        node.replaceWith(postcss.atRule({ name, params, nodes: node.nodes, source: node.source ?? node.first?.source }));
+      } else if (node.type === 'rule' && /:$/.test(node.selector)) {
+        // font: { family: serif; } is font-family: serif
+        const prefix = node.selector.slice(0, -1).trim();
+        node.each(child => {
+          if (child.type === 'decl') {
+            child.prop = `${prefix}-${child.prop}`;
+          }
+        });
+        node.replaceWith(node.nodes);
+      }
+    });
+
+    root.walkRules((rule) => {
+      rule.selector = this.getCompiledSelector(rule);
+    });
+
+    return root;
+  }
+
+  /**
+   * Set the parent of every node; the indented Sass parser leaves some unset
+   */
+  private linkParents(container: postcss.Container): void {
+    container.each((child) => {
+      child.parent = container;
+      if ('nodes' in child) {
+        this.linkParents(child);
+      }
+    });
+  }
+
+  private isLessVariableOrMixin(atRule: postcss.AtRule & { variable?: boolean; mixin?: boolean }): boolean {
+    return Boolean(atRule.variable || atRule.mixin);
+  }
+
+  /**
+   * Get the selector a nested rule compiles to, given that its parent rule's
+   * selector has already been compiled: &:hover and &__title join the parent,
+   * other selectors become its descendants
+   */
+  private getCompiledSelector(rule: postcss.Rule): string {
+    let parent = rule.parent;
+    while (parent && parent.type !== 'rule' && parent.type !== 'root') {
+      parent = parent.parent;
+    }
+    if (!parent || parent.type !== 'rule') {
+      return rule.selector;
+    }
+
+    const parentSelectors = (parent as postcss.Rule).selectors;
+    return rule.selectors
+      .flatMap(selector => parentSelectors.map(parentSelector =>
+        selector.includes('&') ? selector.replace(/&/g, parentSelector) : `${parentSelector} ${selector}`))
+      .join(', ');
+  }
+
   private analyzeDeclaration(decl: postcss.Declaration, features: FeatureUsage[], filePath: string): void {
-    // Analyze CSS property
-    this.checkFeature(decl.prop, decl, features, filePath, 'property');
+    const property = decl.prop.replace(/^-(?:webkit-|moz-|ms-|o-)/, '').toLowerCase();
+    const propertyKey = `css.properties.${property}`;
+    const propertyResolution = this.baselineChecker.resolveFeature(propertyKey);
+
+    // Analyze CSS property, preferring its compat key so that properties such as
+    // "translate" aren't confused with features of the same name
+    if (propertyResolution.status === 'resolved') {
+      this.checkFeature(decl.prop, decl, features, filePath, 'property', propertyKey);
+    } else {
+      this.checkFeature(decl.prop, decl, features, filePath, 'property');
+    }
+    
+    // Analyze property values, e.g. css.properties.display.grid
+    this.analyzePropertyValues(property, decl, features, filePath, propertyResolution.featureId);
     
     // Analyze CSS values
     this.analyzeValue(decl.value, decl, features, filePath);
@@ -57,11 +239,38 @@ export class CSSAnalyzer {
     }
   }
 
+  private analyzePropertyValues(
+    property: string,
+    decl: postcss.Declaration,
+    features: FeatureUsage[],
+    filePath: string,
+    propertyFeatureId?: string
+  ): void {
+    const seen = new Set<string>();
+    const identifiers = decl.value.toLowerCase().match(/(?<![\w.#])-?[a-z][a-z0-9-]*/g) || [];
+
+    for (const identifier of identifiers) {
+      const value = identifier.replace(/^-(?:webkit-|moz-|ms-|o-)/, '');
+      const compatKey = `css.properties.${property}.${value}`;
+
+      if (seen.has(compatKey)) {
+        continue;
+      }
+      seen.add(compatKey);
+
+      // Only report values that map to a different feature than the property itself
+      const resolution = this.baselineChecker.resolveFeature(compatKey);
+      if (resolution.status === 'resolved' && resolution.featureId !== propertyFeatureId) {
+        this.checkFeature(`${decl.prop}: ${identifier}`, decl, features, filePath, 'property-value', compatKey);
+      }
+    }
+  }
+
   private analyzeSelector(rule: postcss.Rule, features: FeatureUsage[], filePath: string): void {
     try {
       selectorParser((selectors) => {
         selectors.walkPseudos((pseudo) => {
-          this.checkFeature(`${pseudo.value}`, rule, features, filePath, 'pseudo-selector');
+          this.checkFeature(pseudo.value, rule, features, filePath, 'pseudo-selector', this.getPseudoLookupKey(pseudo));
         });
 
         selectors.walkAttributes((attr) => {
@@ -81,7 +290,48 @@ export class CSSAnalyzer {
     }
   }
 
+  /**
+   * Get the lookup key of a pseudo-class or pseudo-element: an explicit mapping,
+   * its css.selectors compat key, or its lowercased name
+   */
+  private getPseudoLookupKey(pseudo: selectorParser.Pseudo): string {
+    const written = pseudo.value.toLowerCase();
+    const name = written.replace(/^::?/, '');
+
+    if (PSEUDO_SELECTOR_FEATURES[name]) {
+      return PSEUDO_SELECTOR_FEATURES[name];
+    }
+
+    // :nth-child(2 of .item)
+    const ofSyntax = (name === 'nth-child' || name === 'nth-last-child') && /\bof\b/i.test(pseudo.nodes.toString());
+    const compatKey = ofSyntax ? `css.selectors.${name}.of_syntax` : `css.selectors.${name}`;
+    return this.baselineChecker.resolveFeature(compatKey).status === 'resolved' ? compatKey : written;
+  }
+
+  /**
+   * Report native CSS nesting: rules and conditional at-rules placed inside
+   * another style rule
+   */
+  private analyzeNesting(node: postcss.ChildNode, features: FeatureUsage[], filePath: string): void {
+    const isNestable = node.type === 'rule' ||
+      (node.type === 'atrule' && ['media', 'supports', 'container', 'layer', 'scope'].includes(node.name.toLowerCase()));
+    if (!isNestable) {
+      return;
+    }
+
+    for (let parent = node.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+      if (parent.type === 'rule') {
+        this.checkFeature('nesting', node, features, filePath, 'nesting', 'css.selectors.nesting');
+        return;
+      }
+    }
+  }
+
   private analyzeAtRule(atRule: postcss.AtRule, features: FeatureUsage[], filePath: string): void {
+    if (this.preprocessor && PREPROCESSOR_AT_RULES.includes(atRule.name.toLowerCase())) {
+      return;
+    }
+
     const atRuleName = `@${atRule.name}`;
     this.checkFeature(atRuleName, atRule, features, filePath, 'at-rule');
 
@@ -104,11 +354,20 @@ export class CSSAnalyzer {
 
   private analyzeValue(value: string, node: postcss.Node, features: FeatureUsage[], filePath: string): void {
     // CSS Functions
-    const functionRegex = /([a-zA-Z-]+)\s*\(/g;
-    let match;
-    while ((match = functionRegex.exec(value)) !== null) {
-      const functionName = match[1];
-      this.checkFeature(functionName, node, features, filePath, 'function');
+    for (const { name, args } of this.getFunctions(value)) {
+      const unprefixed = name.toLowerCase().replace(/^-(?:webkit-|moz-|ms-|o-)/, '');
+      const lookupKey = CSS_FUNCTION_FEATURES[unprefixed] ?? name;
+
+      // Unknown functions in Sass and Less are usually their own, such as darken()
+      if (this.preprocessor && this.baselineChecker.resolveFeature(lookupKey).status !== 'resolved') {
+        continue;
+      }
+
+      this.checkFeature(name, node, features, filePath, 'function', lookupKey);
+
+      if (RELATIVE_COLOR_FUNCTIONS.includes(unprefixed) && /^\s*from\s/i.test(args)) {
+        this.checkFeature(`${name}(from ...)`, node, features, filePath, 'function', 'relative-color');
+      }
     }
 
     // CSS Keywords and special values
@@ -127,6 +386,7 @@ export class CSSAnalyzer {
 
     // CSS Units
     const unitRegex = /\d+(\.\d+)?\s*([a-zA-Z%]+)/g;
+    let match;
     while ((match = unitRegex.exec(value)) !== null) {
       const unit = match[2];
       if (['vh', 'vw', 'vmin', 'vmax', 'ch', 'rem', 'fr'].includes(unit)) {
@@ -135,6 +395,21 @@ export class CSSAnalyzer {
     }
   }
 
+  /**
+   * Get the functions used in a value with the text following each opening
+   * parenthesis, leaving out strings and url() contents
+   */
+  private getFunctions(value: string): Array<{ name: string; args: string }> {
+    const code = value
+      .replace(/(["'])(?:\\.|(?!\1).)*\1/g, '""')
+      .replace(/\burl\([^)]*\)/gi, 'url()');
+
+    return Array.from(code.matchAll(/(?<![\w-])(-?[a-zA-Z][\w-]*)\(/g), match => ({
+      name: match[1],
+      args: code.slice((match.index ?? 0) + match[0].length)
+    }));
+  }
+
   private analyzeMediaQuery(query: string, node: postcss.Node, features: FeatureUsage[], filePath: string): void {
     // Media query features
     const mediaFeatures = [
@@ -164,43 +439,125 @@ export class CSSAnalyzer {
     node: postcss.Node, 
     features: FeatureUsage[], 
     filePath: string,
-    type: string
+    type: string,
+    lookupKey: string = featureId
   ): void {
-    const result = this.baselineChecker.checkFeature(featureId);
+    const result = this.baselineChecker.checkFeature(lookupKey);
+    
+    if (result.resolution.status !== 'resolved') {
+      this.addDiagnostic(result.resolution, filePath, node.source?.start?.line || 0, node.source?.start?.column || 0);
+      return;
+    }
     
     if (result.baseline !== null) {
-      const severity = this.determineSeverity(result.baseline, result.meetsCriteria);
+      // Conditions are feature tests themselves; usages inside them are guarded
+      const guard = result.meetsCriteria
+        ? undefined
+        : type === 'supports-property'
+          ? `@supports ${(node as postcss.AtRule).params}`
+          : this.getSupportsGuard(node, result.featureId || featureId);
+
+      const severity = this.baselineChecker.getSeverity(result, guard);
       
       features.push({
         feature: featureId,
-        featureId: featureId,
+        featureId: result.featureId || featureId,
+        matchedKey: result.resolution.matchedKey,
+        confidence: result.resolution.confidence,
         file: filePath,
         line: node.source?.start?.line || 0,
         column: node.source?.start?.column || 0,
         context: this.getContext(node, type),
         baseline: result.baseline,
         browsers: result.browsers,
+        failingBrowsers: result.failingBrowsers,
+        baselineLowDate: result.baselineLowDate,
+        baselineHighDate: result.baselineHighDate,
         severity,
         suggestion: result.suggestion,
         polyfill: this.getPolyfillSuggestion(featureId),
-        alternative: this.getAlternativeSuggestion(featureId)
+        alternative: result.alternative || this.getAlternativeSuggestion(featureId),
+        discouraged: result.discouraged,
+        guard
       });
     }
   }
 
-  private determineSeverity(
-    baseline: string, 
-    meetsCriteria: boolean
-  ): 'error' | 'warning' | 'info' {
-    if (!meetsCriteria) {
-      return baseline === 'limited' ? 'error' : 'warning';
+  /**
+   * Find the @supports rule guarding a feature: one whose condition tests the
+   * feature, or a "@supports not" block holding fallbacks for browsers without it
+   */
+  private getSupportsGuard(node: postcss.Node, featureId: string): string | undefined {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (parent.type !== 'atrule' || (parent as postcss.AtRule).name.toLowerCase() !== 'supports') {
+        continue;
+      }
+
+      const atRule = parent as postcss.AtRule;
+      if (/^not\b/i.test(atRule.params.trim()) || this.getSupportsFeatures(atRule).has(featureId)) {
+        return `@supports ${atRule.params}`;
+      }
     }
-    return 'info';
+    return undefined;
+  }
+
+  private getSupportsFeatures(atRule: postcss.AtRule): Set<string> {
+    const cached = this.supportsGuards.get(atRule);
+    if (cached) {
+      return cached;
+    }
+
+    const featureIds = new Set<string>();
+    const resolve = (query: string) => {
+      const resolution = this.baselineChecker.resolveFeature(query);
+      if (resolution.status === 'resolved' && resolution.featureId) {
+        featureIds.add(resolution.featureId);
+      }
+    };
+
+    // (property: value) tests cover the property, its values and any functions used
+    const declarationRegex = /\(\s*([a-zA-Z-]+)\s*:\s*([^()]*(?:\([^()]*\)[^()]*)*)\)/g;
+    let match;
+    while ((match = declarationRegex.exec(atRule.params)) !== null) {
+      const property = match[1].replace(/^-(?:webkit-|moz-|ms-|o-)/, '').toLowerCase();
+      resolve(`css.properties.${property}`);
+      resolve(property);
+      for (const identifier of match[2].toLowerCase().match(/(?<![\w.#])-?[a-z][a-z0-9-]*/g) || []) {
+        resolve(`css.properties.${property}.${identifier.replace(/^-(?:webkit-|moz-|ms-|o-)/, '')}`);
+      }
+      for (const { name } of this.getFunctions(match[2])) {
+        resolve(CSS_FUNCTION_FEATURES[name.toLowerCase()] ?? name);
+      }
+    }
+
+    // selector(:has(a)) tests cover the pseudo-classes and pseudo-elements named
+    for (const selector of atRule.params.matchAll(/selector\(((?:[^()]|\([^()]*\))*)\)/gi)) {
+      try {
+        selectorParser((selectors) => {
+          selectors.walkPseudos((pseudo) => resolve(this.getPseudoLookupKey(pseudo)));
+        }).processSync(selector[1]);
+      } catch (error) {
+        // Unparseable conditions guard nothing
+      }
+    }
+
+    this.supportsGuards.set(atRule, featureIds);
+    return featureIds;
+  }
+
+  private addDiagnostic(resolution: FeatureResolution, filePath: string, line: number, column: number): void {
+    this.diagnostics.push({
+      query: resolution.query,
+      status: resolution.status as 'ambiguous' | 'unresolved',
+      candidates: resolution.candidates,
+      locations: [{ file: filePath, line, column }]
+    });
   }
 
   private getContext(node: postcss.Node, type: string): string {
     switch (type) {
       case 'property':
+      case 'property-value':
         return `${(node as postcss.Declaration).prop}: ${(node as postcss.Declaration).value}`;
       case 'at-rule':
         return `@${(node as postcss.AtRule).name} ${(node as postcss.AtRule).params}`;
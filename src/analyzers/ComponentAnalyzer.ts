@@ -0,0 +1,178 @@
+import * as path from 'path';
+import { parseFragment, DefaultTreeAdapterMap } from 'parse5';
+import { FeatureUsage, FileAnalysis, ResolutionDiagnostic } from '../types';
+import { CSSAnalyzer } from './CSSAnalyzer';
+import { HTMLAnalyzer } from './HTMLAnalyzer';
+import { JavaScriptAnalyzer } from './JavaScriptAnalyzer';
+import { SimpleJavaScriptAnalyzer } from './SimpleJavaScriptAnalyzer';
+import { EmbeddedSource, MappedAnalysis } from './EmbeddedSource';
+
+type Node = DefaultTreeAdapterMap['node'];
+type Element = DefaultTreeAdapterMap['element'];
+
+/**
+ * Scoped style syntax that is compiled away and never reaches the browser
+ */
+const COMPONENT_STYLE_TOKENS = [':global'];
+
+interface CodeBlock {
+  kind: 'script' | 'style';
+  startOffset: number;
+  endOffset: number;
+  /** Extension telling the analyzer which syntax to expect */
+  extension: string;
+}
+
+/**
+ * Analyzes Svelte and Astro components. Scripts, styles and Astro frontmatter
+ * go to the JavaScript and CSS analyzers; the remaining markup goes to the
+ * HTML analyzer with the code blocks blanked out so positions are unchanged.
+ */
+export class ComponentAnalyzer {
+  private htmlAnalyzer: HTMLAnalyzer;
+  private cssAnalyzer: CSSAnalyzer;
+  private jsAnalyzer: JavaScriptAnalyzer | SimpleJavaScriptAnalyzer;
+
+  constructor(
+    htmlAnalyzer: HTMLAnalyzer,
+    cssAnalyzer: CSSAnalyzer,
+    jsAnalyzer: JavaScriptAnalyzer | SimpleJavaScriptAnalyzer
+  ) {
+    this.htmlAnalyzer = htmlAnalyzer;
+    this.cssAnalyzer = cssAnalyzer;
+    this.jsAnalyzer = jsAnalyzer;
+  }
+
+  public async analyze(content: string, filePath: string): Promise<FileAnalysis> {
+    const type = path.extname(filePath).toLowerCase() === '.astro' ? 'astro' : 'svelte';
+    const features: FeatureUsage[] = [];
+    const diagnostics: ResolutionDiagnostic[] = [];
+    const fallbackReasons: Array<string | undefined> = [];
+
+    try {
+      const blocks = type === 'astro' ? this.findFrontmatter(content) : [];
+      const markupStart = blocks.length > 0 ? blocks[0].endOffset : 0;
+      blocks.push(...this.findCodeBlocks(content, markupStart, type));
+
+      for (const block of blocks) {
+        const analysis = await this.analyzeBlock(block, content, filePath);
+        features.push(...analysis.features);
+        diagnostics.push(...analysis.diagnostics);
+        fallbackReasons.push(analysis.fallbackReason);
+      }
+
+      const markup = await this.htmlAnalyzer.analyze(this.blankBlocks(content, blocks), filePath);
+      features.push(...markup.features);
+      diagnostics.push(...(markup.diagnostics || []));
+      fallbackReasons.push(markup.fallbackReason);
+    } catch (error) {
+      console.warn(`Failed to parse ${type === 'astro' ? 'Astro' : 'Svelte'} file ${filePath}:`, error);
+    }
+
+    return {
+      file: filePath,
+      type,
+      features,
+      diagnostics,
+      fallbackReason: EmbeddedSource.joinFallbackReasons(fallbackReasons)
+    };
+  }
+
+  private findFrontmatter(content: string): CodeBlock[] {
+    // Astro frontmatter is TypeScript between "---" fences at the top of the file
+    const match = /^(\s*---[^\S\n]*\n)([\s\S]*?)\n---[^\S\n]*(?:\n|$)/.exec(content);
+    if (!match) {
+      return [];
+    }
+
+    return [{
+      kind: 'script',
+      startOffset: match[1].length,
+      endOffset: match[0].length,
+      extension: 'ts'
+    }];
+  }
+
+  private findCodeBlocks(content: string, markupStart: number, type: 'svelte' | 'astro'): CodeBlock[] {
+    const blocks: CodeBlock[] = [];
+    const fragment = parseFragment(content.slice(markupStart), { sourceCodeLocationInfo: true });
+
+    const walk = (node: Node) => {
+      if ('tagName' in node && (node.tagName === 'script' || node.tagName === 'style')) {
+        const block = this.toCodeBlock(node, markupStart, type);
+        if (block) {
+          blocks.push(block);
+        }
+        return;
+      }
+
+      for (const child of ('childNodes' in node ? node.childNodes : [])) {
+        walk(child);
+      }
+    };
+    walk(fragment);
+
+    return blocks;
+  }
+
+  private toCodeBlock(element: Element, markupStart: number, type: 'svelte' | 'astro'): CodeBlock | undefined {
+    const location = element.sourceCodeLocation;
+    if (!location?.startTag) {
+      return undefined;
+    }
+
+    const attr = (name: string) => element.attrs.find(a => a.name === name)?.value.trim().toLowerCase();
+    const lang = attr('lang');
+    let extension: string | undefined;
+
+    if (element.tagName === 'style') {
+      extension = !lang || lang === 'postcss' ? 'css' : ['css', 'scss', 'sass', 'less'].includes(lang) ? lang : undefined;
+    } else {
+      const scriptType = attr('type');
+      const isJavaScript = !scriptType || scriptType === 'module' || /^(?:text|application)\/(?:java|ecma)script$/.test(scriptType);
+      // Astro bundles its scripts as TypeScript unless they are left inline
+      const isTypeScript = lang === 'ts' || (type === 'astro' && !element.attrs.some(a => a.name === 'is:inline'));
+      extension = isJavaScript ? (isTypeScript ? 'ts' : 'js') : undefined;
+    }
+
+    return {
+      kind: element.tagName === 'style' ? 'style' : 'script',
+      startOffset: markupStart + location.startTag.endOffset,
+      endOffset: markupStart + (location.endTag ? location.endTag.startOffset : location.endOffset),
+      // Blocks in unsupported languages are still blanked out of the markup
+      extension: extension || ''
+    };
+  }
+
+  private async analyzeBlock(
+    block: CodeBlock,
+    content: string,
+    filePath: string
+  ): Promise<MappedAnalysis> {
+    const source = content.slice(block.startOffset, block.endOffset);
+    if (!block.extension || !source.trim()) {
+      return { features: [], diagnostics: [] };
+    }
+
+    const analyzer = block.kind === 'style' ? this.cssAnalyzer : this.jsAnalyzer;
+    const analysis = await analyzer.analyze(source, `${filePath}.${block.extension}`);
+    const mapped = EmbeddedSource.mapAnalysis(analysis, EmbeddedSource.getPosition(content, block.startOffset), filePath);
+
+    return {
+      ...mapped,
+      diagnostics: block.kind === 'style'
+        ? mapped.diagnostics.filter(diagnostic => !COMPONENT_STYLE_TOKENS.includes(diagnostic.query))
+        : mapped.diagnostics
+    };
+  }
+
+  private blankBlocks(content: string, blocks: CodeBlock[]): string {
+    // Replace code with spaces, keeping line breaks so markup positions still match
+    let markup = content;
+    for (const block of blocks) {
+      const blank = content.slice(block.startOffset, block.endOffset).replace(/[^\n]/g, ' ');
+      markup = markup.slice(0, block.startOffset) + blank + markup.slice(block.endOffset);
+    }
+    return markup;
+  }
+}
\ No newline at end of file
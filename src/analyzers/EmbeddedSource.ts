@@ -0,0 +1,73 @@
+import { FileAnalysis, FeatureUsage, ResolutionDiagnostic } from '../types';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface MappedAnalysis {
+  features: FeatureUsage[];
+  diagnostics: ResolutionDiagnostic[];
+  /** Why the embedded code fell back to the regex engine, if it did */
+  fallbackReason?: string;
+}
+
+/**
+ * Maps analyses of code embedded in another file, such as an inline <style>
+ * block or a component's <script>, back to positions in the containing file
+ */
+export class EmbeddedSource {
+  /**
+   * Get the line and column (both 1-based) of an offset in a source string
+   */
+  public static getPosition(content: string, offset: number): SourcePosition {
+    const before = content.slice(0, offset).split('\n');
+    return {
+      line: before.length,
+      column: before[before.length - 1].length + 1
+    };
+  }
+
+  /**
+   * Shift the features and diagnostics of an embedded analysis so they point
+   * into the containing file, which starts the embedded source at `start`
+   */
+  public static mapAnalysis(
+    analysis: FileAnalysis,
+    start: SourcePosition,
+    filePath: string
+  ): MappedAnalysis {
+    return {
+      // Parse errors give positions within the embedded code
+      fallbackReason: analysis.fallbackReason && `Embedded code at ${start.line}:${start.column}: ${analysis.fallbackReason}`,
+      features: analysis.features.map(feature => ({
+        ...feature,
+        file: filePath,
+        ...EmbeddedSource.offset(feature, start)
+      })),
+      diagnostics: (analysis.diagnostics || []).map(diagnostic => ({
+        ...diagnostic,
+        locations: diagnostic.locations.map(location => ({
+          ...location,
+          file: filePath,
+          ...EmbeddedSource.offset(location, start)
+        }))
+      }))
+    };
+  }
+
+  /**
+   * Combine the fallback reasons of a file's embedded code blocks
+   */
+  public static joinFallbackReasons(reasons: Array<string | undefined>): string | undefined {
+    return reasons.filter(Boolean).join('; ') || undefined;
+  }
+
+  private static offset(position: SourcePosition, start: SourcePosition): SourcePosition {
+    return {
+      line: position.line + start.line - 1,
+      // Columns are only offset on the first line; 0 means the column is unknown
+      column: position.line === 1 && position.column > 0 ? position.column + start.column - 1 : position.column
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { parse, DefaultTreeAdapterMap } from 'parse5';
+import { FeatureUsage, FileAnalysis, FeatureResolution, ResolutionDiagnostic } from '../types';
+import { BaselineChecker } from '../core/BaselineChecker';
+import { CSSAnalyzer } from './CSSAnalyzer';
+import { JavaScriptAnalyzer } from './JavaScriptAnalyzer';
+import { SimpleJavaScriptAnalyzer } from './SimpleJavaScriptAnalyzer';
+import { EmbeddedSource, SourcePosition } from './EmbeddedSource';
+
+type Node = DefaultTreeAdapterMap['node'];
+type Element = DefaultTreeAdapterMap['element'];
+
+/**
+ * Analyzes HTML files for elements and attributes, handing inline styles and
+ * scripts to the CSS and JavaScript analyzers
+ */
+export class HTMLAnalyzer {
+  private baselineChecker: BaselineChecker;
+  private cssAnalyzer: CSSAnalyzer;
+  private jsAnalyzer: JavaScriptAnalyzer | SimpleJavaScriptAnalyzer;
+  private diagnostics: ResolutionDiagnostic[] = [];
+  private fallbackReasons: Array<string | undefined> = [];
+
+  constructor(
+    baselineChecker: BaselineChecker,
+    cssAnalyzer: CSSAnalyzer,
+    jsAnalyzer: JavaScriptAnalyzer | SimpleJavaScriptAnalyzer
+  ) {
+    this.baselineChecker = baselineChecker;
+    this.cssAnalyzer = cssAnalyzer;
+    this.jsAnalyzer = jsAnalyzer;
+  }
+
+  public async analyze(content: string, filePath: string): Promise<FileAnalysis> {
+    const features: FeatureUsage[] = [];
+    this.diagnostics = [];
+    this.fallbackReasons = [];
+
+    try {
+      const document = parse(content, { sourceCodeLocationInfo: true });
+      await this.walk(document, content, features, filePath);
+    } catch (error) {
+      console.warn(`Failed to parse HTML file ${filePath}:`, error);
+    }
+
+    return {
+      file: filePath,
+      type: 'html',
+      features,
+      diagnostics: this.diagnostics,
+      fallbackReason: EmbeddedSource.joinFallbackReasons(this.fallbackReasons)
+    };
+  }
+
+  private async walk(node: Node, content: string, features: FeatureUsage[], filePath: string): Promise<void> {
+    if ('tagName' in node) {
+      await this.analyzeElement(node, content, features, filePath);
+    }
+
+    for (const child of ('childNodes' in node ? node.childNodes : [])) {
+      await this.walk(child, content, features, filePath);
+    }
+
+    // <template> children live in a separate document fragment
+    if ('content' in node) {
+      await this.walk(node.content, content, features, filePath);
+    }
+  }
+
+  private async analyzeElement(element: Element, content: string, features: FeatureUsage[], filePath: string): Promise<void> {
+    const location = element.sourceCodeLocation;
+
+    // Elements implied by the parser, such as a missing <body>, aren't in the source
+    if (!location) {
+      return;
+    }
+
+    const tag = element.tagName;
+    const elementId = this.checkCompatKey(`<${tag}>`, `html.elements.${tag}`, undefined, features, filePath, location.startLine, location.startCol);
+    if (!elementId && this.isStandardName(tag)) {
+      this.addUnresolved(`<${tag}>`, filePath, location.startLine, location.startCol);
+    }
+
+    for (const attr of element.attrs) {
+      const attrLocation = location.attrs?.[attr.name];
+      const line = attrLocation?.startLine ?? location.startLine;
+      const column = attrLocation?.startCol ?? location.startCol;
+
+      const attributeId = this.analyzeAttribute(tag, attr.name, features, filePath, line, column);
+
+      if (attr.name === 'style' && attr.value.trim() && attrLocation) {
+        const raw = content.slice(attrLocation.startOffset, attrLocation.endOffset);
+        const valueOffset = (/^[^=]*=\s*["']?/.exec(raw)?.[0].length) || 0;
+        const start = EmbeddedSource.getPosition(content, attrLocation.startOffset + valueOffset);
+        await this.analyzeEmbedded(this.cssAnalyzer, attr.value, start, features, filePath);
+      }
+
+      // Values such as rel="modulepreload" only matter when they map to a different feature
+      if (attributeId) {
+        const values = new Set(attr.value.toLowerCase().split(/\s+/).filter(Boolean));
+        for (const value of values) {
+          const token = `<${tag} ${attr.name}="${value}">`;
+          this.checkCompatKey(token, `html.elements.${tag}.${attr.name}.${value}`, attributeId, features, filePath, line, column);
+          this.checkCompatKey(token, `html.global_attributes.${attr.name}.${value}_value`, attributeId, features, filePath, line, column);
+        }
+      }
+    }
+
+    const text = element.childNodes.find(child => child.nodeName === '#text');
+    const textLocation = text?.sourceCodeLocation;
+    if (!text || !textLocation || !('value' in text) || !text.value.trim()) {
+      return;
+    }
+
+    const start = { line: textLocation.startLine, column: textLocation.startCol };
+    if (tag === 'style') {
+      await this.analyzeEmbedded(this.cssAnalyzer, text.value, start, features, filePath);
+    } else if (tag === 'script' && this.isJavaScript(element)) {
+      await this.analyzeEmbedded(this.jsAnalyzer, text.value, start, features, filePath);
+    }
+  }
+
+  private analyzeAttribute(
+    tag: string,
+    name: string,
+    features: FeatureUsage[],
+    filePath: string,
+    line: number,
+    column: number
+  ): string | undefined {
+    const token = `<${tag} ${name}>`;
+    const elementKey = `html.elements.${tag}.${name}`;
+
+    if (this.baselineChecker.resolveFeature(elementKey).status === 'resolved') {
+      return this.checkCompatKey(token, elementKey, undefined, features, filePath, line, column);
+    }
+
+    const attributeId = this.checkCompatKey(`[${name}]`, `html.global_attributes.${name}`, undefined, features, filePath, line, column);
+    if (!attributeId && this.isStandardName(tag) && this.isStandardName(name)) {
+      this.addUnresolved(token, filePath, line, column);
+    }
+
+    return attributeId;
+  }
+
+  /**
+   * Custom elements, data-* and aria-* attributes and framework syntax such as
+   * v-if or (click) are never in the dataset, so they aren't worth a diagnostic
+   */
+  private isStandardName(name: string): boolean {
+    return /^[a-z][a-z0-9]*$/.test(name);
+  }
+
+  /**
+   * Report a compat key if it resolves to a feature other than the one already
+   * reported for the enclosing attribute. Returns the feature ID, or undefined
+   * if the key is not in the dataset.
+   */
+  private checkCompatKey(
+    token: string,
+    compatKey: string,
+    parentFeatureId: string | undefined,
+    features: FeatureUsage[],
+    filePath: string,
+    line: number,
+    column: number
+  ): string | undefined {
+    const resolution = this.baselineChecker.resolveFeature(compatKey);
+    if (resolution.status !== 'resolved') {
+      return undefined;
+    }
+
+    if (resolution.featureId !== parentFeatureId) {
+      this.checkFeature(token, compatKey, features, filePath, line, column);
+    }
+
+    return resolution.featureId;
+  }
+
+  private async analyzeEmbedded(
+    analyzer: CSSAnalyzer | JavaScriptAnalyzer | SimpleJavaScriptAnalyzer,
+    source: string,
+    start: SourcePosition,
+    features: FeatureUsage[],
+    filePath: string
+  ): Promise<void> {
+    const analysis = await analyzer.analyze(source, filePath);
+    const mapped = EmbeddedSource.mapAnalysis(analysis, start, filePath);
+
+    features.push(...mapped.features);
+    this.diagnostics.push(...mapped.diagnostics);
+    this.fallbackReasons.push(mapped.fallbackReason);
+  }
+
+  private isJavaScript(element: Element): boolean {
+    const type = element.attrs.find(attr => attr.name === 'type')?.value.trim().toLowerCase();
+    return !type || type === 'module' || /^(?:text|application)\/(?:java|ecma)script$/.test(type);
+  }
+
+  private checkFeature(
+    token: string,
+    compatKey: string,
+    features: FeatureUsage[],
+    filePath: string,
+    line: number,
+    column: number
+  ): void {
+    const result = this.baselineChecker.checkFeature(compatKey);
+
+    if (result.resolution.status !== 'resolved') {
+      this.addDiagnostic(result.resolution, filePath, line, column);
+      return;
+    }
+
+    // Markup that meets the target, such as <div> or <a href>, would only be noise
+    if (result.baseline !== null && (!result.meetsCriteria || result.discouraged)) {
+      const severity = this.baselineChecker.getSeverity(result);
+
+      features.push({
+        feature: token,
+        featureId: result.featureId || compatKey,
+        matchedKey: result.resolution.matchedKey,
+        confidence: result.resolution.confidence,
+        file: filePath,
+        line,
+        column,
+        context: token,
+        baseline: result.baseline,
+        browsers: result.browsers,
+        failingBrowsers: result.failingBrowsers,
+        baselineLowDate: result.baselineLowDate,
+        baselineHighDate: result.baselineHighDate,
+        severity,
+        suggestion: result.suggestion,
+        alternative: result.alternative,
+        discouraged: result.discouraged
+      });
+    }
+  }
+
+  private addDiagnostic(resolution: FeatureResolution, filePath: string, line: number, column: number): void {
+    this.diagnostics.push({
+      query: resolution.query,
+      status: resolution.status as 'ambiguous' | 'unresolved',
+      candidates: resolution.candidates,
+      locations: [{ file: filePath, line, column }]
+    });
+  }
+
+  private addUnresolved(query: string, filePath: string, line: number, column: number): void {
+    this.addDiagnostic({ query, status: 'unresolved', candidates: [] }, filePath, line, column);
+  }
+}
\ No newline at end of file
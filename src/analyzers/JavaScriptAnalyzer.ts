@@ -2,49 +2,83 @@ import { parse } from '@babel/parser';
 import traverse from '@babel/traverse';
 import { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
-import { FeatureUsage, FileAnalysis } from '../types';
+import { FeatureUsage, FileAnalysis, FeatureResolution, ResolutionDiagnostic } from '../types';
 import { BaselineChecker } from '../core/BaselineChecker';
+import { ProjectTypeChecker, ReceiverKind } from '../core/ProjectTypeChecker';
+import { SimpleJavaScriptAnalyzer } from './SimpleJavaScriptAnalyzer';
+import { CSSAnalyzer } from './CSSAnalyzer';
+import { EmbeddedSource } from './EmbeddedSource';
+import { RegExpScanner } from './RegExpScanner';
+
+/**
+ * CSS found in JavaScript, with the offset of its first character in the file
+ */
+interface EmbeddedStyle {
+  source: string;
+  offset: number;
+}
 
 /**
  * Analyzes JavaScript/TypeScript files for web feature usage
  */
 export class JavaScriptAnalyzer {
   private baselineChecker: BaselineChecker;
+  private diagnostics: ResolutionDiagnostic[] = [];
+  private fallback?: SimpleJavaScriptAnalyzer;
+  private cssAnalyzer: CSSAnalyzer;
+  private content = '';
+  private typeChecker?: ProjectTypeChecker;
 
-  constructor(baselineChecker: BaselineChecker) {
+  /**
+   * @param fallback Analyzer to use for files that cannot be parsed
+   */
+  constructor(baselineChecker: BaselineChecker, fallback?: SimpleJavaScriptAnalyzer) {
     this.baselineChecker = baselineChecker;
+    this.fallback = fallback;
+    this.cssAnalyzer = new CSSAnalyzer(baselineChecker);
+  }
+
+  /**
+   * Use TypeScript type information to tell what a method is called on
+   */
+  public setTypeChecker(typeChecker: ProjectTypeChecker | undefined): void {
+    this.typeChecker = typeChecker;
   }
 
   public async analyze(content: string, filePath: string): Promise<FileAnalysis> {
     const features: FeatureUsage[] = [];
+    this.diagnostics = [];
+    this.content = content;
     const isTypeScript = filePath.endsWith('.ts') || filePath.endsWith('.tsx');
     const isJSX = filePath.endsWith('.jsx') || filePath.endsWith('.tsx');
+
+    let ast: ReturnType<typeof parse>;
+    try {
+      ast = this.parse(content, isTypeScript, isJSX);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (this.fallback) {
+        const analysis = await this.fallback.analyze(content, filePath);
+        return { ...analysis, engine: 'regex', fallbackReason: reason };
+      }
+
+      console.warn(`Failed to parse JavaScript file ${filePath}:`, error);
+      return {
+        file: filePath,
+        type: isTypeScript ? 'typescript' : 'javascript',
+        features,
+        diagnostics: this.diagnostics,
+        engine: 'ast'
+      };
+    }
     
+    const embeddedStyles: EmbeddedStyle[] = [];
+
     try {
-      const ast = parse(content, {
-        sourceType: 'module',
-        allowImportExportEverywhere: true,
-        allowReturnOutsideFunction: true,
-        plugins: [
-          'asyncGenerators',
-          'bigInt',
-          'classProperties',
-          'decorators-legacy',
-          'doExpressions',
-          'dynamicImport',
-          'exportDefaultFrom',
-          'exportNamespaceFrom',
-          'functionBind',
-          'nullishCoalescingOperator',
-          'numericSeparator',
-          'objectRestSpread',
-          'optionalCatchBinding',
-          'optionalChaining',
-          'topLevelAwait',
-          ...(isTypeScript ? ['typescript' as const] : []),
-          ...(isJSX ? ['jsx' as const] : [])
-        ]
-      });
+      // #!/usr/bin/env node
+      if (ast.program.interpreter) {
+        this.checkFeature('javascript.grammar.hashbang_comments', ast.program.interpreter, features, filePath, 'syntax');
+      }
 
       traverse(ast, {
         // ES6+ Syntax Features
@@ -56,6 +90,18 @@ export class JavaScriptAnalyzer {
           this.checkFeature('es6-class', path.node, features, filePath, 'syntax');
         },
 
+        ClassPrivateProperty: (path) => {
+          this.checkFeature('javascript.classes.private_class_fields', path.node, features, filePath, 'syntax');
+        },
+
+        ClassPrivateMethod: (path) => {
+          this.checkFeature('javascript.classes.private_class_methods', path.node, features, filePath, 'syntax');
+        },
+
+        StaticBlock: (path) => {
+          this.checkFeature('javascript.classes.static_initialization_blocks', path.node, features, filePath, 'syntax');
+        },
+
         TemplateLiteral: (path) => {
           this.checkFeature('template-literals', path.node, features, filePath, 'syntax');
         },
@@ -71,10 +117,20 @@ export class JavaScriptAnalyzer {
         // Async/Await
         AwaitExpression: (path) => {
           this.checkFeature('async-await', path.node, features, filePath, 'syntax');
+
+          if (!path.getFunctionParent()) {
+            this.checkFeature('javascript.operators.await.top_level', path.node, features, filePath, 'syntax');
+          }
+        },
+
+        ForOfStatement: (path) => {
+          if (path.node.await && !path.getFunctionParent()) {
+            this.checkFeature('javascript.operators.await.top_level', path.node, features, filePath, 'syntax');
+          }
         },
         
         Function: (path) => {
-          if ((path.node as any).async) {
+          if (path.node.async) {
             this.checkFeature('async-functions', path.node, features, filePath, 'syntax');
           }
         },
@@ -84,6 +140,11 @@ export class JavaScriptAnalyzer {
           if (path.node.operator === '**') {
             this.checkFeature('exponentiation-operator', path.node, features, filePath, 'operator');
           }
+
+          // Brand check: #field in obj
+          if (path.node.operator === 'in' && t.isPrivateName(path.node.left)) {
+            this.checkFeature('javascript.classes.private_class_fields_in', path.node, features, filePath, 'operator');
+          }
         },
 
         LogicalExpression: (path) => {
@@ -96,6 +157,12 @@ export class JavaScriptAnalyzer {
           this.checkFeature('optional-chaining', path.node, features, filePath, 'syntax');
         },
 
+        // Regular expressions
+        RegExpLiteral: (path) => {
+          const { pattern, flags } = path.node;
+          this.analyzeRegExp(pattern, flags, path.node, path.node, features, filePath);
+        },
+
         // Web APIs and Browser Features
         MemberExpression: (path) => {
           this.analyzeMemberExpression(path, features, filePath);
@@ -103,19 +170,50 @@ export class JavaScriptAnalyzer {
 
         CallExpression: (path) => {
           this.analyzeCallExpression(path, features, filePath);
+          this.analyzeRegExpConstructor(path, features, filePath);
+
+          const style = this.getSetPropertyStyle(path.node);
+          if (style) {
+            embeddedStyles.push(style);
+          }
+        },
+
+        OptionalCallExpression: (path) => {
+          this.analyzeCallExpression(path, features, filePath);
         },
 
         NewExpression: (path) => {
           this.analyzeNewExpression(path, features, filePath);
+          this.analyzeRegExpConstructor(path, features, filePath);
+        },
+
+        // CSS-in-JS: styled-components, emotion and Lit templates, style props and assignments
+        TaggedTemplateExpression: (path) => {
+          if (this.isCssTag(path.node.tag)) {
+            embeddedStyles.push(this.getTemplateStyle(path.node.quasi));
+          }
+        },
+
+        JSXAttribute: (path) => {
+          embeddedStyles.push(...this.getJSXStyles(path.node));
+        },
+
+        AssignmentExpression: (path) => {
+          const style = this.getStyleAssignment(path.node);
+          if (style) {
+            embeddedStyles.push(style);
+          }
         },
 
         // Import/Export
         ImportDeclaration: (path) => {
           this.checkFeature('es6-modules', path.node, features, filePath, 'syntax');
+          this.analyzeImportAttributes(path.node, features, filePath);
         },
 
         ExportDeclaration: (path) => {
           this.checkFeature('es6-modules', path.node, features, filePath, 'syntax');
+          this.analyzeImportAttributes(path.node, features, filePath);
         },
 
         // Destructuring
@@ -128,19 +226,195 @@ export class JavaScriptAnalyzer {
         }
       });
 
+
+      for (const style of embeddedStyles) {
+        await this.analyzeStyle(style, content, features, filePath);
+      }
     } catch (error) {
-      console.warn(`Failed to parse JavaScript file ${filePath}:`, error);
+      console.warn(`Failed to analyze JavaScript file ${filePath}:`, error);
     }
 
     return {
       file: filePath,
       type: isTypeScript ? 'typescript' : 'javascript',
-      features
+      features,
+      diagnostics: this.diagnostics,
+      engine: 'ast'
+    };
+  }
+
+  private parse(content: string, isTypeScript: boolean, isJSX: boolean) {
+    return parse(content, {
+      sourceType: 'module',
+      allowImportExportEverywhere: true,
+      allowReturnOutsideFunction: true,
+      plugins: [
+        'asyncGenerators',
+        'bigInt',
+        'classProperties',
+        'decorators-legacy',
+        'doExpressions',
+        'dynamicImport',
+        'exportDefaultFrom',
+        'exportNamespaceFrom',
+        'functionBind',
+        'nullishCoalescingOperator',
+        'numericSeparator',
+        'objectRestSpread',
+        'optionalCatchBinding',
+        'optionalChaining',
+        'importAttributes',
+        'topLevelAwait',
+        ...(isTypeScript ? ['typescript' as const] : []),
+        ...(isJSX ? ['jsx' as const] : [])
+      ]
+    });
+  }
+
+  private isCssTag(tag: t.Expression): boolean {
+    // styled.div`...`, styled(Button)`...` and styled.div.attrs({})`...` all root at "styled"
+    let root: t.Node = tag;
+    while (t.isMemberExpression(root) || t.isCallExpression(root)) {
+      root = t.isMemberExpression(root) ? root.object : root.callee;
+    }
+    return t.isIdentifier(root) && this.baselineChecker.getCssTemplateTags().includes(root.name);
+  }
+
+  /**
+   * Get the CSS of a tagged template, replacing each interpolation with a
+   * placeholder of the same length so positions are unchanged
+   */
+  private getTemplateStyle(quasi: t.TemplateLiteral): EmbeddedStyle {
+    let source = '';
+
+    quasi.quasis.forEach((element, index) => {
+      source += element.value.raw;
+
+      const next = quasi.quasis[index + 1];
+      if (!next || element.end == null || next.start == null) {
+        return;
+      }
+
+      // "${...}"; interpolations on a line of their own are usually mixins
+      const length = next.start - element.end;
+      const isStatement = /(?:^|[;{}])\s*$/.test(source) && /^[^\S\n]*(?:[\n;}]|$)/.test(next.value.raw);
+      source += isStatement ? `/*${' '.repeat(length - 4)}*/` : '_'.repeat(length);
+    });
+
+    return { source, offset: quasi.quasis[0].start ?? (quasi.start ?? 0) + 1 };
+  }
+
+  private getJSXStyles(attribute: t.JSXAttribute): EmbeddedStyle[] {
+    if (
+      !t.isJSXIdentifier(attribute.name, { name: 'style' }) ||
+      !t.isJSXExpressionContainer(attribute.value) ||
+      !t.isObjectExpression(attribute.value.expression)
+    ) {
+      return [];
+    }
+
+    const styles: EmbeddedStyle[] = [];
+    for (const property of attribute.value.expression.properties) {
+      if (!t.isObjectProperty(property) || property.computed || property.key.start == null) {
+        continue;
+      }
+
+      const name = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : undefined;
+      if (name) {
+        styles.push({
+          source: `${this.toCssProperty(name)}: ${this.getStyleValue(property.value)}`,
+          offset: property.key.start
+        });
+      }
+    }
+    return styles;
+  }
+
+  private getStyleAssignment(assignment: t.AssignmentExpression): EmbeddedStyle | undefined {
+    // element.style.aspectRatio = '16 / 9'
+    const { left } = assignment;
+    if (
+      !t.isMemberExpression(left) ||
+      left.computed ||
+      !t.isIdentifier(left.property) ||
+      !t.isMemberExpression(left.object) ||
+      !t.isIdentifier(left.object.property, { name: 'style' }) ||
+      left.property.start == null
+    ) {
+      return undefined;
+    }
+
+    return {
+      source: `${this.toCssProperty(left.property.name)}: ${this.getStyleValue(assignment.right)}`,
+      offset: left.property.start
+    };
+  }
+
+  private getSetPropertyStyle(call: t.CallExpression): EmbeddedStyle | undefined {
+    // element.style.setProperty('aspect-ratio', '16 / 9')
+    const { callee } = call;
+    const [property, value] = call.arguments;
+    if (
+      !t.isMemberExpression(callee) ||
+      !t.isIdentifier(callee.property, { name: 'setProperty' }) ||
+      !t.isMemberExpression(callee.object) ||
+      !t.isIdentifier(callee.object.property, { name: 'style' }) ||
+      !t.isStringLiteral(property) ||
+      property.start == null
+    ) {
+      return undefined;
+    }
+
+    return {
+      source: `${property.value}: ${this.getStyleValue(value)}`,
+      offset: property.start + 1
     };
   }
 
+  /**
+   * Convert a camelCase style property such as WebkitLineClamp to its CSS name
+   */
+  private toCssProperty(name: string): string {
+    if (name.startsWith('--')) {
+      return name;
+    }
+    const property = name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+    return /^(?:ms|moz|webkit|o)-/.test(property) ? `-${property}` : property;
+  }
+
+  private getStyleValue(node: t.Node | undefined): string {
+    if (t.isStringLiteral(node)) {
+      return node.value;
+    }
+    if (t.isNumericLiteral(node)) {
+      return String(node.value);
+    }
+    if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+      return node.quasis[0].value.cooked ?? '';
+    }
+    // Values only known at runtime
+    return '_';
+  }
+
+  private async analyzeStyle(style: EmbeddedStyle, content: string, features: FeatureUsage[], filePath: string): Promise<void> {
+    if (!style.source.trim()) {
+      return;
+    }
+
+    const analysis = await this.cssAnalyzer.analyze(style.source, `${filePath}.css`);
+    const mapped = EmbeddedSource.mapAnalysis(analysis, EmbeddedSource.getPosition(content, style.offset), filePath);
+
+    features.push(...mapped.features);
+    this.diagnostics.push(...mapped.diagnostics);
+  }
+
   private analyzeMemberExpression(path: NodePath<t.MemberExpression>, features: FeatureUsage[], filePath: string): void {
     const { object, property } = path.node;
+
+    // A local variable or import named like a platform global isn't the platform API
+    if (t.isIdentifier(object) && !this.isGlobal(path, object.name)) {
+      return;
+    }
     
     // Web APIs
     if (t.isIdentifier(object)) {
@@ -158,7 +432,7 @@ export class JavaScriptAnalyzer {
 
       if (webApis[objectName as keyof typeof webApis] && t.isIdentifier(property)) {
         const apiName = `${objectName}.${property.name}`;
-        this.checkFeature(this.mapApiToFeature(apiName), path.node, features, filePath, 'api');
+        this.checkFeature(this.mapApiToFeature(apiName), path.node, features, filePath, 'api', this.getGuard(path, apiName));
       }
     }
 
@@ -176,16 +450,27 @@ export class JavaScriptAnalyzer {
       };
 
       if (featureMap[memberAccess as keyof typeof featureMap]) {
-        this.checkFeature(featureMap[memberAccess as keyof typeof featureMap], path.node, features, filePath, 'api');
+        const guard = this.getGuard(path, memberAccess);
+        this.checkFeature(featureMap[memberAccess as keyof typeof featureMap], path.node, features, filePath, 'api', guard);
       }
     }
   }
 
-  private analyzeCallExpression(path: NodePath<t.CallExpression>, features: FeatureUsage[], filePath: string): void {
+  private analyzeCallExpression(path: NodePath<t.CallExpression | t.OptionalCallExpression>, features: FeatureUsage[], filePath: string): void {
     const { callee } = path.node;
 
+    // Project-specific detectors from the configuration
+    const calleePath = this.getCalleePath(callee);
+    if (calleePath) {
+      this.baselineChecker.getCustomDetectors().forEach(({ call }) => {
+        if (calleePath === call || calleePath.endsWith(`.${call}`)) {
+          this.checkFeature(call, path.node, features, filePath, 'custom', this.getCallGuard(path, calleePath));
+        }
+      });
+    }
+
     // Global functions
-    if (t.isIdentifier(callee)) {
+    if (t.isIdentifier(callee) && this.isGlobal(path, callee.name)) {
       const functionName = callee.name;
       
       const globalFeatures = {
@@ -193,41 +478,74 @@ export class JavaScriptAnalyzer {
         'Promise': 'promises',
         'requestAnimationFrame': 'requestanimationframe',
         'setTimeout': 'settimeout',
-        'setInterval': 'setinterval'
+        'setInterval': 'setinterval',
+        'structuredClone': 'structured-clone'
       };
 
       if (globalFeatures[functionName as keyof typeof globalFeatures]) {
-        this.checkFeature(globalFeatures[functionName as keyof typeof globalFeatures], path.node, features, filePath, 'api');
+        const guard = this.getCallGuard(path, functionName);
+        this.checkFeature(globalFeatures[functionName as keyof typeof globalFeatures], path.node, features, filePath, 'api', guard);
       }
     }
 
+    // Static methods of built-in constructors
+    const staticMethods = {
+      'Object.groupBy': 'array-group',
+      'Map.groupBy': 'array-group',
+      'Promise.any': 'promise-any',
+      'Promise.allSettled': 'promise-allsettled',
+      'Promise.withResolvers': 'promise-withresolvers',
+      'Array.fromAsync': 'array-fromasync'
+    };
+
+    if (calleePath && staticMethods[calleePath as keyof typeof staticMethods] && this.isGlobal(path, calleePath.split('.')[0])) {
+      const guard = this.getCallGuard(path, calleePath);
+      this.checkFeature(staticMethods[calleePath as keyof typeof staticMethods], path.node, features, filePath, 'api', guard);
+    }
+
     // Method calls
-    if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
+    if ((t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)) && t.isIdentifier(callee.property)) {
       const methodName = callee.property.name;
       
       // Array methods
       const arrayMethods = [
-        'find', 'findIndex', 'includes', 'entries', 'keys', 'values',
+        'find', 'findIndex', 'findLast', 'findLastIndex', 'includes', 'entries', 'keys', 'values',
         'map', 'filter', 'reduce', 'forEach', 'some', 'every',
-        'flat', 'flatMap', 'from', 'of'
+        'flat', 'flatMap', 'from', 'of', 'at', 'toSorted', 'toReversed', 'toSpliced', 'with'
       ];
 
-      if (arrayMethods.includes(methodName)) {
-        this.checkFeature(`array-${methodName}`, path.node, features, filePath, 'method');
-      }
 
       // String methods
       const stringMethods = [
         'startsWith', 'endsWith', 'includes', 'repeat', 'padStart', 'padEnd',
-        'trim', 'trimStart', 'trimEnd', 'replaceAll'
+        'trim', 'trimStart', 'trimEnd', 'replaceAll', 'at'
       ];
 
-      if (stringMethods.includes(methodName)) {
+      // Set methods
+      const setMethods = [
+        'union', 'intersection', 'difference', 'symmetricDifference',
+        'isSubsetOf', 'isSupersetOf', 'isDisjointFrom'
+      ];
+
+      // Methods on both prototypes, such as includes, are reported once: by the
+      // receiver's kind when it is evident, otherwise as the array method
+      const receiverKind = this.getMethodReceiverKind(callee.object, path, filePath);
+      const kind = receiverKind ?? (arrayMethods.includes(methodName) ? 'array' : 'string');
+
+      if (kind === 'array' && arrayMethods.includes(methodName)) {
+        this.checkFeature(`array-${methodName}`, path.node, features, filePath, 'method');
+      }
+
+      if (kind === 'string' && stringMethods.includes(methodName)) {
         this.checkFeature(`string-${methodName}`, path.node, features, filePath, 'method');
       }
 
+      if ((receiverKind ?? 'set') === 'set' && setMethods.includes(methodName)) {
+        this.checkFeature('set-methods', path.node, features, filePath, 'method');
+      }
+
       // Object methods
-      if (t.isIdentifier(callee.object) && callee.object.name === 'Object') {
+      if (t.isIdentifier(callee.object, { name: 'Object' }) && this.isGlobal(path, 'Object')) {
         const objectMethods = [
           'assign', 'keys', 'values', 'entries', 'fromEntries',
           'getOwnPropertyDescriptors', 'hasOwn'
@@ -240,10 +558,328 @@ export class JavaScriptAnalyzer {
     }
   }
 
+  /**
+   * Whether a name refers to a global rather than a local variable, parameter or import
+   */
+  private isGlobal(path: NodePath, name: string): boolean {
+    return !path.scope.getBinding(name);
+  }
+
+  /**
+   * Get what a method is called on: Array for static calls such as Array.from,
+   * the checker's answer in type-checked mode, otherwise an inference from the syntax.
+   * "other" means none of the known kinds, such as one of the project's own types.
+   */
+  private getMethodReceiverKind(receiver: t.Node, path: NodePath, filePath: string): ReceiverKind | undefined {
+    if (t.isIdentifier(receiver, { name: 'Array' }) && this.isGlobal(path, 'Array')) {
+      return 'array';
+    }
+
+    if (t.isIdentifier(receiver, { name: 'Object' }) && this.isGlobal(path, 'Object')) {
+      return 'other';
+    }
+
+    if (this.typeChecker && receiver.start != null && receiver.end != null) {
+      const kind = this.typeChecker.getReceiverKind(filePath, receiver.start, receiver.end);
+      if (kind) {
+        return kind;
+      }
+    }
+
+    return this.getReceiverKind(receiver, path);
+  }
+
+  /**
+   * Infer whether a method's receiver is a string, an array or a Set from
+   * literals, constant initializers, type annotations and well-known calls
+   */
+  private getReceiverKind(node: t.Node, path: NodePath, depth = 0): ReceiverKind | undefined {
+    if (t.isStringLiteral(node) || t.isTemplateLiteral(node)) {
+      return 'string';
+    }
+
+    if (t.isArrayExpression(node) || t.isNewExpression(node) && t.isIdentifier(node.callee, { name: 'Array' })) {
+      return 'array';
+    }
+
+    if (t.isNewExpression(node) && t.isIdentifier(node.callee, { name: 'Set' })) {
+      return 'set';
+    }
+
+    if (t.isCallExpression(node)) {
+      const callee = this.getCalleePath(node.callee);
+      const method = t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property) ? node.callee.property.name : undefined;
+      if (callee === 'String' || ['join', 'trim', 'toLowerCase', 'toUpperCase', 'repeat'].includes(method || '')) {
+        return 'string';
+      }
+      if (callee === 'Array.from' || callee === 'Array.of' || method === 'split') {
+        return 'array';
+      }
+      return undefined;
+    }
+
+    if (!t.isIdentifier(node) || depth > 3) {
+      return undefined;
+    }
+
+    const binding = path.scope.getBinding(node.name);
+    if (!binding) {
+      return undefined;
+    }
+
+    // Module namespaces and default exports such as lodash's "_"
+    if (binding.kind === 'module') {
+      return 'other';
+    }
+
+    const annotation = t.isTSTypeAnnotation(binding.identifier.typeAnnotation) ? binding.identifier.typeAnnotation.typeAnnotation : undefined;
+    if (t.isTSStringKeyword(annotation)) {
+      return 'string';
+    }
+    if (t.isTSArrayType(annotation) || t.isTSTypeReference(annotation) && t.isIdentifier(annotation.typeName) && ['Array', 'ReadonlyArray'].includes(annotation.typeName.name)) {
+      return 'array';
+    }
+    if (t.isTSTypeReference(annotation) && t.isIdentifier(annotation.typeName) && ['Set', 'ReadonlySet'].includes(annotation.typeName.name)) {
+      return 'set';
+    }
+
+    const declarator = binding.path.node;
+    if (binding.constant && t.isVariableDeclarator(declarator) && declarator.init) {
+      return this.getReceiverKind(declarator.init, binding.path, depth + 1);
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the guard of a call: an optional call such as Object.groupBy?.(items, fn)
+   * only runs where the function exists, otherwise look for a feature test
+   */
+  private getCallGuard(path: NodePath<t.CallExpression | t.OptionalCallExpression>, usage: string): string | undefined {
+    if (t.isOptionalCallExpression(path.node) && path.node.optional) {
+      return 'optional chaining (?.)';
+    }
+    return this.getGuard(path, usage);
+  }
+
+  /**
+   * Find a feature test guarding a usage: an if-block, ternary or && whose
+   * condition tests the API, an earlier early return when it is missing, or
+   * an optional call or member access. Returns a description of the guard.
+   */
+  private getGuard(path: NodePath, usage: string): string | undefined {
+    for (let current: NodePath = path; current.parentPath; current = current.parentPath) {
+      const parent: NodePath = current.parentPath;
+      const { node } = parent;
+
+      if ((t.isOptionalMemberExpression(node) || t.isOptionalCallExpression(node)) && node.optional &&
+        (current.key === 'object' || current.key === 'callee')) {
+        return 'optional chaining (?.)';
+      }
+
+      if (t.isUnaryExpression(node, { operator: 'typeof' })) {
+        return `${this.getSource(node)} check`;
+      }
+
+      if (t.isIfStatement(node) || t.isConditionalExpression(node)) {
+        const polarity = this.getTestPolarity(node.test, usage);
+        const guarded = current.key === 'test' ? polarity !== undefined
+          : current.key === 'consequent' ? polarity === true
+            : polarity === false;
+        if (guarded) {
+          return t.isIfStatement(node) ? `if (${this.getSource(node.test)})` : `${this.getSource(node.test)} ? …`;
+        }
+      }
+
+      if (t.isLogicalExpression(node) && node.operator !== '??') {
+        const polarity = this.getTestPolarity(node.left, usage);
+        const guarded = current.key === 'left' ? polarity !== undefined
+          : polarity === (node.operator === '&&');
+        if (guarded) {
+          return `${this.getSource(node.left)} ${node.operator} …`;
+        }
+      }
+
+      // if (!('share' in navigator)) return; earlier in the same block
+      if (current.inList && current.listKey === 'body') {
+        for (const sibling of current.getAllPrevSiblings()) {
+          const statement = sibling.node;
+          if (t.isIfStatement(statement) && !statement.alternate && this.exits(statement.consequent) &&
+            this.getTestPolarity(statement.test, usage) === false) {
+            return `if (${this.getSource(statement.test)}) return`;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Whether a condition is true (true) or false (false) when the API exists,
+   * or undefined if it doesn't test the API
+   */
+  private getTestPolarity(test: t.Node, usage: string): boolean | undefined {
+    if (t.isUnaryExpression(test, { operator: '!' })) {
+      const polarity = this.getTestPolarity(test.argument, usage);
+      return polarity === undefined ? undefined : !polarity;
+    }
+
+    if (t.isLogicalExpression(test) && test.operator !== '??') {
+      // a && b is only known true, and a || b only known false, when each side is
+      const polarities = [this.getTestPolarity(test.left, usage), this.getTestPolarity(test.right, usage)];
+      const known = test.operator === '&&';
+      return polarities.includes(known) ? known : undefined;
+    }
+
+    if (t.isBinaryExpression(test, { operator: 'in' }) && t.isStringLiteral(test.left)) {
+      const object = this.getCalleePath(test.right);
+      return object && this.testsUsage(`${object}.${test.left.value}`, usage) ? true : undefined;
+    }
+
+    if (t.isBinaryExpression(test) && ['===', '!==', '==', '!='].includes(test.operator)) {
+      const [typeOf, literal] = t.isUnaryExpression(test.left, { operator: 'typeof' })
+        ? [test.left, test.right]
+        : [test.right, test.left];
+      if (!t.isUnaryExpression(typeOf, { operator: 'typeof' }) || !t.isStringLiteral(literal)) {
+        return undefined;
+      }
+
+      const subject = this.getCalleePath(typeOf.argument);
+      if (!subject || !this.testsUsage(subject, usage)) {
+        return undefined;
+      }
+      const isEqual = test.operator === '===' || test.operator === '==';
+      return literal.value === 'undefined' ? !isEqual : isEqual;
+    }
+
+    // Truthiness: if (navigator.share), if (window.ResizeObserver)
+    const subject = this.getCalleePath(test);
+    return subject && this.testsUsage(subject, usage) ? true : undefined;
+  }
+
+  private testsUsage(subject: string, usage: string): boolean {
+    const normalize = (name: string) => name.replace(/^(?:window|globalThis|self)\./, '');
+    const tested = normalize(subject);
+    const used = normalize(usage);
+    return tested === used || used.startsWith(`${tested}.`) || tested.startsWith(`${used}.`);
+  }
+
+  private exits(statement: t.Statement): boolean {
+    const last = t.isBlockStatement(statement) ? statement.body[statement.body.length - 1] : statement;
+    return t.isReturnStatement(last) || t.isThrowStatement(last);
+  }
+
+  /**
+   * Report the features of a RegExp() or new RegExp() call with a constant pattern
+   */
+  private analyzeRegExpConstructor(path: NodePath<t.CallExpression | t.NewExpression>, features: FeatureUsage[], filePath: string): void {
+    const { callee, arguments: [pattern, flags] } = path.node;
+    if (!t.isIdentifier(callee, { name: 'RegExp' }) || !this.isGlobal(path, 'RegExp')) {
+      return;
+    }
+
+    // A pattern read without its flags still shows lookbehind, named groups and modifiers
+    const source = this.getConstantString(pattern);
+    const flagSource = this.getConstantString(flags);
+    this.analyzeRegExp(source ?? '', flagSource ?? '', source !== undefined ? pattern : undefined, flagSource !== undefined ? flags : undefined, features, filePath);
+  }
+
+  /**
+   * Report the features a regular expression uses, at the pattern's and the flags' literals
+   */
+  private analyzeRegExp(
+    pattern: string,
+    flags: string,
+    patternNode: t.Node | undefined,
+    flagsNode: t.Node | undefined,
+    features: FeatureUsage[],
+    filePath: string
+  ): void {
+    if (patternNode) {
+      for (const feature of RegExpScanner.getPatternFeatures(pattern, flags)) {
+        this.checkRegExpFeature(feature, patternNode, features, filePath);
+      }
+    }
+
+    if (flagsNode) {
+      for (const feature of RegExpScanner.getFlagFeatures(flags)) {
+        this.checkRegExpFeature(feature, flagsNode, features, filePath);
+      }
+    }
+  }
+
+  /**
+   * Check a regular expression key, reporting it as unresolved rather than
+   * passing it when the data only knows it as part of the umbrella feature
+   */
+  private checkRegExpFeature(feature: string, node: t.Node, features: FeatureUsage[], filePath: string): void {
+    if (this.baselineChecker.resolveFeature(feature).featureId === RegExpScanner.UMBRELLA_FEATURE) {
+      this.addDiagnostic({ query: feature, status: 'unresolved', candidates: [] }, filePath, node.loc?.start.line || 0, this.getColumn(node));
+      return;
+    }
+
+    this.checkFeature(feature, node, features, filePath, 'regexp');
+  }
+
+  private getConstantString(node: t.Node | undefined): string | undefined {
+    if (t.isStringLiteral(node)) {
+      return node.value;
+    }
+    if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+      return node.quasis[0].value.cooked ?? undefined;
+    }
+    // String.raw`\d+(?<=x)`, a common way to write patterns without doubled backslashes
+    if (t.isTaggedTemplateExpression(node) && this.getCalleePath(node.tag) === 'String.raw' && node.quasi.expressions.length === 0) {
+      return node.quasi.quasis[0].value.raw;
+    }
+    return undefined;
+  }
+
+  /**
+   * Report import attributes: JSON and CSS module imports by their type,
+   * any other attributes as the syntax itself
+   */
+  private analyzeImportAttributes(node: t.ImportDeclaration | t.ExportDeclaration, features: FeatureUsage[], filePath: string): void {
+    const attributes = 'attributes' in node ? node.attributes : undefined;
+    if (!attributes || attributes.length === 0) {
+      return;
+    }
+
+    const moduleTypes = {
+      'json': 'json-modules',
+      'css': 'css-modules'
+    };
+
+    const type = attributes.find(attribute => t.isIdentifier(attribute.key, { name: 'type' }) || t.isStringLiteral(attribute.key, { value: 'type' }));
+    const featureId = type && moduleTypes[type.value.value as keyof typeof moduleTypes];
+    this.checkFeature(featureId || 'javascript.statements.import.import_attributes', type || attributes[0], features, filePath, 'syntax');
+  }
+
+  private getSource(node: t.Node): string {
+    return node.start != null && node.end != null ? this.content.slice(node.start, node.end) : '';
+  }
+
+  private getCalleePath(node: t.Node): string | undefined {
+    if (t.isIdentifier(node)) {
+      return node.name;
+    }
+
+    if (t.isThisExpression(node)) {
+      return 'this';
+    }
+
+    if ((t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) && !node.computed && t.isIdentifier(node.property)) {
+      const objectPath = this.getCalleePath(node.object);
+      return objectPath ? `${objectPath}.${node.property.name}` : undefined;
+    }
+
+    return undefined;
+  }
+
   private analyzeNewExpression(path: NodePath<t.NewExpression>, features: FeatureUsage[], filePath: string): void {
     const { callee } = path.node;
 
-    if (t.isIdentifier(callee)) {
+    if (t.isIdentifier(callee) && this.isGlobal(path, callee.name)) {
       const constructorName = callee.name;
       
       const constructorFeatures = {
@@ -275,7 +911,8 @@ export class JavaScriptAnalyzer {
       };
 
       if (constructorFeatures[constructorName as keyof typeof constructorFeatures]) {
-        this.checkFeature(constructorFeatures[constructorName as keyof typeof constructorFeatures], path.node, features, filePath, 'constructor');
+        const guard = this.getGuard(path, constructorName);
+        this.checkFeature(constructorFeatures[constructorName as keyof typeof constructorFeatures], path.node, features, filePath, 'constructor', guard);
       }
     }
   }
@@ -303,38 +940,60 @@ export class JavaScriptAnalyzer {
     node: t.Node,
     features: FeatureUsage[],
     filePath: string,
-    type: string
+    type: string,
+    guard?: string
   ): void {
     const result = this.baselineChecker.checkFeature(featureId);
     
+    if (result.resolution.status !== 'resolved') {
+      this.addDiagnostic(result.resolution, filePath, node.loc?.start.line || 0, this.getColumn(node));
+      return;
+    }
+    
     if (result.baseline !== null) {
-      const severity = this.determineSeverity(result.baseline, result.meetsCriteria);
+      // Only failing features need a guard
+      guard = result.meetsCriteria ? undefined : guard;
+
+      const severity = this.baselineChecker.getSeverity(result, guard);
       
       features.push({
         feature: featureId,
-        featureId: featureId,
+        featureId: result.featureId || featureId,
+        matchedKey: result.resolution.matchedKey,
+        confidence: result.resolution.confidence,
         file: filePath,
         line: node.loc?.start.line || 0,
-        column: node.loc?.start.column || 0,
+        column: this.getColumn(node),
         context: this.getContext(node, type),
         baseline: result.baseline,
         browsers: result.browsers,
+        failingBrowsers: result.failingBrowsers,
+        baselineLowDate: result.baselineLowDate,
+        baselineHighDate: result.baselineHighDate,
         severity,
         suggestion: result.suggestion,
         polyfill: this.getPolyfillSuggestion(featureId),
-        alternative: this.getAlternativeSuggestion(featureId)
+        alternative: result.alternative || this.getAlternativeSuggestion(featureId),
+        discouraged: result.discouraged,
+        guard
       });
     }
   }
 
-  private determineSeverity(
-    baseline: string,
-    meetsCriteria: boolean
-  ): 'error' | 'warning' | 'info' {
-    if (!meetsCriteria) {
-      return baseline === 'limited' ? 'error' : 'warning';
-    }
-    return 'info';
+  /**
+   * Babel columns are 0-based; findings use 1-based columns, with 0 for unknown
+   */
+  private getColumn(node: t.Node): number {
+    return node.loc ? node.loc.start.column + 1 : 0;
+  }
+
+  private addDiagnostic(resolution: FeatureResolution, filePath: string, line: number, column: number): void {
+    this.diagnostics.push({
+      query: resolution.query,
+      status: resolution.status as 'ambiguous' | 'unresolved',
+      candidates: resolution.candidates,
+      locations: [{ file: filePath, line, column }]
+    });
   }
 
   private getContext(node: t.Node, type: string): string {
@@ -353,6 +1012,10 @@ export class JavaScriptAnalyzer {
       return `new ${node.callee.name}()`;
     }
 
+    if (t.isRegExpLiteral(node)) {
+      return `/${node.pattern}/${node.flags}`;
+    }
+
     return type;
   }
 
@@ -0,0 +1,82 @@
+/**
+ * Finds the regular expression features a pattern and its flags use, as
+ * browser-compat-data keys that resolve to web-features IDs
+ */
+export class RegExpScanner {
+  /**
+   * Feature the bundled data files every regular expression key under. It has
+   * been Baseline since 2015, so a key that resolves to it says nothing about
+   * when its own syntax became available.
+   */
+  public static readonly UMBRELLA_FEATURE = 'regexp';
+
+  /**
+   * Get the features used by a pattern's syntax
+   *
+   * @param flags Flags the pattern is compiled with, which decide how escapes are read
+   */
+  public static getPatternFeatures(pattern: string, flags = ''): string[] {
+    const features = new Set<string>();
+    const unicode = flags.includes('u') || flags.includes('v');
+    const groupNames = new Set<string>();
+    // Character classes nest only with the v flag: [[a-z]--[aeiou]]
+    let classDepth = 0;
+
+    for (let index = 0; index < pattern.length; index++) {
+      const char = pattern[index];
+
+      if (char === '\\') {
+        const escape = pattern.slice(index + 1, index + 3);
+        if (unicode && /^[pP]\{/.test(escape)) {
+          features.add('javascript.regular_expressions.unicode_character_class_escape');
+        } else if (escape === 'k<') {
+          features.add('javascript.regular_expressions.named_backreference');
+        }
+        index++;
+        continue;
+      }
+
+      if (char === '[' && (classDepth === 0 || flags.includes('v'))) {
+        classDepth++;
+        continue;
+      }
+
+      if (classDepth > 0) {
+        classDepth -= char === ']' ? 1 : 0;
+        continue;
+      }
+
+      if (char === '(' && pattern[index + 1] === '?') {
+        const group = pattern.slice(index + 2);
+        const name = /^<([^>=!][^>]*)>/.exec(group);
+
+        if (/^<[=!]/.test(group)) {
+          features.add('javascript.regular_expressions.lookbehind_assertion');
+        } else if (name) {
+          features.add(groupNames.has(name[1])
+            ? 'javascript.regular_expressions.named_capturing_group.duplicate_named_capturing_groups'
+            : 'javascript.regular_expressions.named_capturing_group');
+          groupNames.add(name[1]);
+        } else if (/^(?:[ims]+|[ims]*-[ims]+):/.test(group)) {
+          // Inline modifiers: (?i:...) and (?-m:...)
+          features.add('javascript.regular_expressions.modifier');
+        }
+      }
+    }
+
+    return Array.from(features);
+  }
+
+  /**
+   * Get the features used by a pattern's flags
+   */
+  public static getFlagFeatures(flags: string): string[] {
+    const flagFeatures: Record<string, string> = {
+      'd': 'javascript.builtins.RegExp.hasIndices',
+      's': 'javascript.builtins.RegExp.dotAll',
+      'v': 'javascript.builtins.RegExp.unicodeSets'
+    };
+
+    return Array.from(new Set(flags)).filter(flag => flagFeatures[flag]).map(flag => flagFeatures[flag]);
+  }
+}
\ No newline at end of file
@@ -1,11 +1,14 @@
-import { FeatureUsage, FileAnalysis } from '../types';
+import { FeatureUsage, FileAnalysis, FeatureResolution, ResolutionDiagnostic } from '../types';
 import { BaselineChecker } from '../core/BaselineChecker';
+import { RegExpScanner } from './RegExpScanner';
 
 /**
  * Simplified JavaScript analyzer using regex patterns
  */
 export class SimpleJavaScriptAnalyzer {
   private baselineChecker: BaselineChecker;
+  private diagnostics: ResolutionDiagnostic[] = [];
+  private callPatterns = new Map<string, RegExp>();
 
   constructor(baselineChecker: BaselineChecker) {
     this.baselineChecker = baselineChecker;
@@ -13,6 +16,7 @@ export class SimpleJavaScriptAnalyzer {
 
   public async analyze(content: string, filePath: string): Promise<FileAnalysis> {
     const features: FeatureUsage[] = [];
+    this.diagnostics = [];
     const lines = content.split('\n');
     
     for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
@@ -26,7 +30,9 @@ export class SimpleJavaScriptAnalyzer {
     return {
       file: filePath,
       type: this.getFileType(filePath),
-      features
+      features,
+      diagnostics: this.diagnostics,
+      engine: 'regex'
     };
   }
 
@@ -51,7 +57,16 @@ export class SimpleJavaScriptAnalyzer {
       { pattern: /\?\?/, feature: 'nullish-coalescing', description: 'Nullish coalescing operator' },
       { pattern: /\?\./,  feature: 'optional-chaining', description: 'Optional chaining operator' },
       { pattern: /class\s+[a-zA-Z_$][a-zA-Z0-9_$]*/, feature: 'es6-class', description: 'ES6 class declaration' },
-      { pattern: /\*\*/, feature: 'exponentiation-operator', description: 'Exponentiation operator' }
+      { pattern: /\*\*/, feature: 'exponentiation-operator', description: 'Exponentiation operator' },
+      { pattern: /^\s*(?:static\s+)?#[a-zA-Z_$][a-zA-Z0-9_$]*\s*[=;]/, feature: 'javascript.classes.private_class_fields', description: 'Private class field' },
+      { pattern: /^\s*(?:static\s+)?(?:async\s+)?#[a-zA-Z_$][a-zA-Z0-9_$]*\s*\(/, feature: 'javascript.classes.private_class_methods', description: 'Private class method' },
+      { pattern: /#[a-zA-Z_$][a-zA-Z0-9_$]*\s+in\s/, feature: 'javascript.classes.private_class_fields_in', description: 'Private field brand check' },
+      { pattern: /^\s*static\s*\{/, feature: 'javascript.classes.static_initialization_blocks', description: 'Class static initialization block' },
+      // Unindented await is almost always at the top level of a module
+      { pattern: /^(?:(?:export\s+)?(?:const|let|var)\s[^=]*=\s*)?await\s/, feature: 'javascript.operators.await.top_level', description: 'Top-level await' },
+      { pattern: /^#!/, feature: 'javascript.grammar.hashbang_comments', description: 'Hashbang comment' },
+      { pattern: /['"]\s*(?:with|assert)\s*\{\s*type\s*:\s*['"]json['"]/, feature: 'json-modules', description: 'JSON module import' },
+      { pattern: /['"]\s*(?:with|assert)\s*\{\s*type\s*:\s*['"]css['"]/, feature: 'css-modules', description: 'CSS module import' }
     ];
 
     // Web APIs
@@ -82,14 +97,21 @@ export class SimpleJavaScriptAnalyzer {
       { pattern: /new\s+Worker/, feature: 'web-workers', description: 'Web Workers' },
       { pattern: /new\s+WebSocket/, feature: 'websockets', description: 'WebSocket constructor' },
       { pattern: /new\s+EventSource/, feature: 'eventsource', description: 'EventSource constructor' },
-      { pattern: /new\s+XMLHttpRequest/, feature: 'xhr', description: 'XMLHttpRequest constructor' }
+      { pattern: /new\s+XMLHttpRequest/, feature: 'xhr', description: 'XMLHttpRequest constructor' },
+      { pattern: /structuredClone\s*\(/, feature: 'structured-clone', description: 'structuredClone()' },
+      { pattern: /(?:Object|Map)\.groupBy\s*\(/, feature: 'array-group', description: 'Object.groupBy and Map.groupBy' },
+      { pattern: /Promise\.any\s*\(/, feature: 'promise-any', description: 'Promise.any' },
+      { pattern: /Promise\.allSettled\s*\(/, feature: 'promise-allsettled', description: 'Promise.allSettled' },
+      { pattern: /Promise\.withResolvers\s*\(/, feature: 'promise-withresolvers', description: 'Promise.withResolvers' },
+      { pattern: /Array\.fromAsync\s*\(/, feature: 'array-fromasync', description: 'Array.fromAsync' },
+      { pattern: /\.(?:union|intersection|difference|symmetricDifference|isSubsetOf|isSupersetOf|isDisjointFrom)\s*\(/, feature: 'set-methods', description: 'Set methods' }
     ];
 
     // Array methods
     const arrayMethods = [
-      'find', 'findIndex', 'includes', 'entries', 'keys', 'values',
+      'find', 'findIndex', 'findLast', 'findLastIndex', 'includes', 'entries', 'keys', 'values',
       'map', 'filter', 'reduce', 'forEach', 'some', 'every',
-      'flat', 'flatMap', 'from', 'of'
+      'flat', 'flatMap', 'from', 'of', 'at', 'toSorted', 'toReversed', 'toSpliced', 'with'
     ];
 
     arrayMethods.forEach(method => {
@@ -125,6 +147,18 @@ export class SimpleJavaScriptAnalyzer {
       }
     });
 
+    // Regular expression features
+    this.findRegExps(line).forEach(({ pattern, flags }) => {
+      [...RegExpScanner.getPatternFeatures(pattern, flags), ...RegExpScanner.getFlagFeatures(flags)].forEach(feature => {
+        // Keys the data files under the umbrella feature have no status of their own
+        if (this.baselineChecker.resolveFeature(feature).featureId === RegExpScanner.UMBRELLA_FEATURE) {
+          this.addDiagnostic({ query: feature, status: 'unresolved', candidates: [] }, filePath, lineNumber, 0);
+          return;
+        }
+        this.addFeature(feature, line, lineNumber, filePath, features, 'Regular expression feature');
+      });
+    });
+
     // Check syntax patterns
     syntaxPatterns.forEach(({ pattern, feature, description }) => {
       if (pattern.test(line)) {
@@ -138,6 +172,42 @@ export class SimpleJavaScriptAnalyzer {
         this.addFeature(feature, line, lineNumber, filePath, features, description);
       }
     });
+
+    // Project-specific detectors from the configuration
+    this.baselineChecker.getCustomDetectors().forEach(({ call }) => {
+      if (this.getCallPattern(call).test(line)) {
+        this.addFeature(call, line, lineNumber, filePath, features, `${call}() call`);
+      }
+    });
+  }
+
+  /**
+   * Find regex literals, told apart from division by the token before them,
+   * and RegExp() calls with a string pattern
+   */
+  private findRegExps(line: string): Array<{ pattern: string; flags: string }> {
+    const regExps: Array<{ pattern: string; flags: string }> = [];
+
+    const literals = /(?:^|[=(,:;!&|?{}[\]]|\breturn)\s*\/((?:\\.|\[(?:\\.|[^\]\\])*\]|[^/\\[])+)\/([a-z]*)/g;
+    for (const [, pattern, flags] of line.matchAll(literals)) {
+      regExps.push({ pattern, flags });
+    }
+
+    const calls = /\bRegExp\s*\(\s*(['"])((?:\\.|(?!\1).)*)\1(?:\s*,\s*(['"])([a-z]*)\3)?/g;
+    for (const [, , pattern, , flags] of line.matchAll(calls)) {
+      // Undo string escapes: '\\d' is the pattern \d
+      regExps.push({ pattern: pattern.replace(/\\([\s\S])/g, '$1'), flags: flags || '' });
+    }
+
+    return regExps;
+  }
+
+  private getCallPattern(call: string): RegExp {
+    if (!this.callPatterns.has(call)) {
+      const escaped = call.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      this.callPatterns.set(call, new RegExp(`(?<![\\w$])${escaped}\\s*\\(`));
+    }
+    return this.callPatterns.get(call)!;
   }
 
   private addFeature(
@@ -150,34 +220,44 @@ export class SimpleJavaScriptAnalyzer {
   ): void {
     const result = this.baselineChecker.checkFeature(featureId);
     
+    if (result.resolution.status !== 'resolved') {
+      this.addDiagnostic(result.resolution, filePath, lineNumber, 0);
+      return;
+    }
+    
     if (result.baseline !== null) {
-      const severity = this.determineSeverity(result.baseline, result.meetsCriteria);
+      const severity = this.baselineChecker.getSeverity(result);
       
       features.push({
         feature: featureId,
-        featureId: featureId,
+        featureId: result.featureId || featureId,
+        matchedKey: result.resolution.matchedKey,
+        confidence: result.resolution.confidence,
         file: filePath,
         line: lineNumber,
         column: 0,
         context: context.trim().slice(0, 100),
         baseline: result.baseline,
         browsers: result.browsers,
+        failingBrowsers: result.failingBrowsers,
+        baselineLowDate: result.baselineLowDate,
+        baselineHighDate: result.baselineHighDate,
         severity,
         suggestion: result.suggestion,
         polyfill: this.getPolyfillSuggestion(featureId),
-        alternative: this.getAlternativeSuggestion(featureId)
+        alternative: result.alternative || this.getAlternativeSuggestion(featureId),
+        discouraged: result.discouraged
       });
     }
   }
 
-  private determineSeverity(
-    baseline: string,
-    meetsCriteria: boolean
-  ): 'error' | 'warning' | 'info' {
-    if (!meetsCriteria) {
-      return baseline === 'limited' ? 'error' : 'warning';
-    }
-    return 'info';
+  private addDiagnostic(resolution: FeatureResolution, filePath: string, line: number, column: number): void {
+    this.diagnostics.push({
+      query: resolution.query,
+      status: resolution.status as 'ambiguous' | 'unresolved',
+      candidates: resolution.candidates,
+      locations: [{ file: filePath, line, column }]
+    });
   }
 
   private getPolyfillSuggestion(featureId: string): string | undefined {
@@ -0,0 +1,117 @@
+import { parseFragment, DefaultTreeAdapterMap } from 'parse5';
+import { FeatureUsage, FileAnalysis, ResolutionDiagnostic } from '../types';
+import { CSSAnalyzer } from './CSSAnalyzer';
+import { HTMLAnalyzer } from './HTMLAnalyzer';
+import { JavaScriptAnalyzer } from './JavaScriptAnalyzer';
+import { SimpleJavaScriptAnalyzer } from './SimpleJavaScriptAnalyzer';
+import { EmbeddedSource, MappedAnalysis } from './EmbeddedSource';
+
+type Element = DefaultTreeAdapterMap['element'];
+
+/**
+ * Vue-specific style syntax that is compiled away and never reaches the browser
+ */
+const VUE_STYLE_TOKENS = [':deep', ':slotted', ':global', '::v-deep', '::v-slotted', '::v-global', 'v-bind', 'deep-combinator'];
+
+/**
+ * Analyzes Vue single-file components by handing each top-level block to the
+ * HTML, JavaScript or CSS analyzer
+ */
+export class VueAnalyzer {
+  private htmlAnalyzer: HTMLAnalyzer;
+  private cssAnalyzer: CSSAnalyzer;
+  private jsAnalyzer: JavaScriptAnalyzer | SimpleJavaScriptAnalyzer;
+
+  constructor(
+    htmlAnalyzer: HTMLAnalyzer,
+    cssAnalyzer: CSSAnalyzer,
+    jsAnalyzer: JavaScriptAnalyzer | SimpleJavaScriptAnalyzer
+  ) {
+    this.htmlAnalyzer = htmlAnalyzer;
+    this.cssAnalyzer = cssAnalyzer;
+    this.jsAnalyzer = jsAnalyzer;
+  }
+
+  public async analyze(content: string, filePath: string): Promise<FileAnalysis> {
+    const features: FeatureUsage[] = [];
+    const diagnostics: ResolutionDiagnostic[] = [];
+    const fallbackReasons: Array<string | undefined> = [];
+
+    try {
+      const fragment = parseFragment(content, { sourceCodeLocationInfo: true });
+
+      for (const node of fragment.childNodes) {
+        if (!('tagName' in node)) {
+          continue;
+        }
+
+        const analysis = await this.analyzeBlock(node, content, filePath);
+        if (analysis) {
+          features.push(...analysis.features);
+          diagnostics.push(...analysis.diagnostics);
+          fallbackReasons.push(analysis.fallbackReason);
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to parse Vue file ${filePath}:`, error);
+    }
+
+    return {
+      file: filePath,
+      type: 'vue',
+      features,
+      diagnostics,
+      fallbackReason: EmbeddedSource.joinFallbackReasons(fallbackReasons)
+    };
+  }
+
+  private async analyzeBlock(
+    block: Element,
+    content: string,
+    filePath: string
+  ): Promise<MappedAnalysis | undefined> {
+    const location = block.sourceCodeLocation;
+    if (!location?.startTag) {
+      return undefined;
+    }
+
+    // An unclosed block runs to the end of the file
+    const startOffset = location.startTag.endOffset;
+    const endOffset = location.endTag ? location.endTag.startOffset : content.length;
+    const source = content.slice(startOffset, endOffset);
+    const start = EmbeddedSource.getPosition(content, startOffset);
+    const lang = block.attrs.find(attr => attr.name === 'lang')?.value.trim().toLowerCase();
+
+    switch (block.tagName) {
+      case 'template': {
+        // Templates in other languages, such as Pug, aren't HTML
+        if (lang && lang !== 'html') {
+          return undefined;
+        }
+        const analysis = await this.htmlAnalyzer.analyze(source, filePath);
+        return EmbeddedSource.mapAnalysis(analysis, start, filePath);
+      }
+      case 'script': {
+        // Analyzers pick TypeScript and JSX parsing from the file extension
+        const extension = lang && ['ts', 'tsx', 'jsx'].includes(lang) ? lang : 'js';
+        const analysis = await this.jsAnalyzer.analyze(source, `${filePath}.${extension}`);
+        return EmbeddedSource.mapAnalysis(analysis, start, filePath);
+      }
+      case 'style': {
+        if (lang && !['css', 'postcss', 'scss', 'sass', 'less'].includes(lang)) {
+          return undefined;
+        }
+        const extension = lang && lang !== 'postcss' ? lang : 'css';
+        const analysis = await this.cssAnalyzer.analyze(source, `${filePath}.${extension}`);
+        const mapped = EmbeddedSource.mapAnalysis(analysis, start, filePath);
+        return {
+          ...mapped,
+          diagnostics: mapped.diagnostics.filter(diagnostic => !VUE_STYLE_TOKENS.includes(diagnostic.query))
+        };
+      }
+      default:
+        // Custom blocks such as <i18n>
+        return undefined;
+    }
+  }
+}
\ No newline at end of file
@@ -7,23 +7,33 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { BaselineConfig } from './types';
 import { Analyzer } from './core/Analyzer';
+import { BaselineChecker } from './core/BaselineChecker';
+import { FeatureDataset } from './core/FeatureDataset';
 import { ConsoleReporter } from './reporters/ConsoleReporter';
 import { JSONReporter } from './reporters/JSONReporter';
+import { CSVReporter } from './reporters/CSVReporter';
 
 const program = new Command();
 
 program
   .name('baselineflow')
   .description('AI-powered CI/CD integration for Baseline web feature validation')
-  .version('1.0.0');
+  .version('1.0.0')
+  // Let subcommands define options such as --format without the root command claiming them
+  .enablePositionalOptions();
 
 program
   .argument('[path]', 'Path to analyze (defaults to current directory)', '.')
   .option('-c, --config <file>', 'Configuration file path')
-  .option('-t, --target <target>', 'Baseline target: widely-available, newly-available, limited', 'widely-available')
+  .option('-t, --target <target>', 'Baseline target: widely-available, newly-available, limited, baseline-<year>, browsers', 'widely-available')
+  .option('-b, --browsers <query>', 'Browsers to check against with the "browsers" target, e.g. "chrome >= 100, safari_ios >= 15.4"')
   .option('-f, --format <format>', 'Output format: console, json, html', 'console')
+  .option('-d, --data-file <file>', 'web-features snapshot file to check against instead of the bundled data')
+  .option('--as-of <date>', 'Forecast which failing findings will meet the target by this date (YYYY-MM-DD)')
   .option('-o, --output <file>', 'Output file (defaults to stdout)')
   .option('--framework <framework>', 'Framework hint: react, vue, angular, svelte, auto')
+  .option('--engine <engine>', 'JavaScript analysis engine: ast (falls back to regex per file) or regex')
+  .option('--type-check [tsconfig]', 'Use TypeScript types to tell what methods are called on (default tsconfig: tsconfig.json)')
   .option('--generate-fixes', 'Generate fix suggestions', false)
   .option('--ignore <patterns...>', 'Patterns to ignore')
   .option('--no-color', 'Disable colored output')
@@ -44,8 +54,82 @@ program
   .command('init')
   .description('Initialize BaselineFlow configuration')
   .option('-f, --force', 'Overwrite existing configuration')
+  .option('-t, --target <target>', 'Baseline target: widely-available, newly-available, limited, baseline-<year>, browsers', 'widely-available')
   .action(async (options) => {
-    await initializeConfig(options);
+    try {
+      await initializeConfig(options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red('❌ Error:'), message);
+      process.exit(1);
+    }
+  });
+
+// Feature lookup command
+program
+  .command('feature')
+  .description('Look up a web feature and check it against the configured target')
+  .argument('<query>', 'web-features ID, compat key or alias')
+  .option('-c, --config <file>', 'Configuration file path')
+  .option('-t, --target <target>', 'Baseline target: widely-available, newly-available, limited, baseline-<year>, browsers')
+  .option('-b, --browsers <query>', 'Browsers to check against with the "browsers" target')
+  .option('-d, --data-file <file>', 'web-features snapshot file to use instead of the bundled data')
+  .option('--json', 'Output JSON')
+  .action(async (query: string, options) => {
+    try {
+      const config = await loadConfig(options);
+      lookupFeature(query, config, options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red('❌ Error:'), message);
+      process.exit(1);
+    }
+  });
+
+// Dataset browsing commands
+const featuresCommand = program
+  .command('features')
+  .description('Browse the web-features dataset');
+
+featuresCommand
+  .command('list')
+  .description('List web features matching the given filters')
+  .option('-s, --status <statuses...>', 'Baseline status: widely-available, newly-available, limited')
+  .option('--since <date>', 'Reached its current status on or after this date (YYYY[-MM[-DD]])')
+  .option('--until <date>', 'Reached its current status on or before this date (YYYY[-MM[-DD]])')
+  .option('-g, --group <group>', 'Group or category, e.g. css, javascript, layout')
+  .option('--supported-in <query>', 'Only features supported in these browsers, e.g. "safari >= 16"')
+  .option('--unsupported-in <query>', 'Only features lacking support in any of these browsers, e.g. "safari"')
+  .option('-f, --format <format>', 'Output format: table, json, csv', 'table')
+  .option('-o, --output <file>', 'Output file (defaults to stdout)')
+  .option('-d, --data-file <file>', 'web-features snapshot file to use instead of the bundled data')
+  .action(async (options) => {
+    try {
+      await listFeatures(options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red('❌ Error:'), message);
+      process.exit(1);
+    }
+  });
+
+// Data snapshot commands
+const dataCommand = program
+  .command('data')
+  .description('Manage the web-features data used for checks');
+
+dataCommand
+  .command('export')
+  .description('Write the bundled web-features data to a snapshot file for use with --data-file')
+  .option('-o, --output <file>', 'Snapshot file path', 'web-features.snapshot.json')
+  .action(async (options) => {
+    try {
+      await exportData(options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red('❌ Error:'), message);
+      process.exit(1);
+    }
   });
 
 // CI command for integration
@@ -54,6 +138,7 @@ program
   .description('Run in CI mode with strict checking')
   .argument('[path]', 'Path to analyze', '.')
   .option('-c, --config <file>', 'Configuration file path')
+  .option('-d, --data-file <file>', 'web-features snapshot file to check against instead of the bundled data')
   .option('--fail-on-error', 'Exit with error code if violations found', true)
   .option('--fail-on-warning', 'Exit with error code if warnings found', false)
   .action(async (projectPath: string, options) => {
@@ -130,19 +215,60 @@ async function loadConfig(options: any): Promise<BaselineConfig> {
     }
   }
   
+  const target = options.target || config.target || 'widely-available';
+  assertValidTarget(target);
+  
+  if (options.asOf) {
+    assertValidForecast(options.asOf, target);
+  }
+  
+  const engine = options.engine || config.engine || 'ast';
+  assertValidEngine(engine);
+  
   // Merge with CLI options and defaults
   return {
-    target: options.target || config.target || 'widely-available',
-    browsers: config.browsers || ['chrome', 'firefox', 'safari', 'edge'],
+    target,
+    browsers: options.browsers || config.browsers || ['chrome', 'firefox', 'safari', 'edge'],
     exceptions: config.exceptions || [],
     ignoreFiles: [...(config.ignoreFiles || []), ...(options.ignore || [])],
     framework: options.framework || config.framework || 'auto',
     generateFixes: options.generateFixes || config.generateFixes || false,
     reportFormat: options.format || config.reportFormat || 'console',
-    outputFile: options.output || config.outputFile
+    outputFile: options.output || config.outputFile,
+    dataFile: options.dataFile || config.dataFile,
+    asOf: options.asOf,
+    discouragedSeverity: config.discouragedSeverity,
+    guardedSeverity: config.guardedSeverity,
+    aliases: config.aliases,
+    detectors: config.detectors,
+    cssTemplateTags: config.cssTemplateTags,
+    typeCheck: options.typeCheck ?? config.typeCheck,
+    engine
   } as BaselineConfig;
 }
 
+function assertValidTarget(target: string): void {
+  if (!BaselineChecker.isValidTarget(target)) {
+    throw new Error(`Invalid target "${target}". Use widely-available, newly-available, limited, browsers or baseline-<year> (e.g. baseline-2023)`);
+  }
+}
+
+function assertValidForecast(asOf: string, target: string): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(Date.parse(asOf))) {
+    throw new Error(`Invalid --as-of date "${asOf}". Use YYYY-MM-DD`);
+  }
+  
+  if (target === 'browsers') {
+    throw new Error('--as-of forecasts Baseline status and cannot be used with the "browsers" target');
+  }
+}
+
+function assertValidEngine(engine: string): void {
+  if (!['ast', 'regex'].includes(engine)) {
+    throw new Error(`Invalid engine "${engine}". Use ast or regex`);
+  }
+}
+
 async function runAnalysis(projectPath: string, config: BaselineConfig, options: any) {
   const absolutePath = path.resolve(projectPath);
   
@@ -193,8 +319,81 @@ async function generateReport(result: any, config: BaselineConfig, options: any)
   }
 }
 
+function lookupFeature(query: string, config: BaselineConfig, options: any) {
+  const checker = new BaselineChecker(config);
+  const resolution = checker.resolveFeature(query);
+  const details = checker.describeFeature(query);
+  
+  if (options.json) {
+    console.log(JSON.stringify(details ? { ...details, target: config.target, resolution } : { resolution }, null, 2));
+  } else if (details) {
+    console.log(new ConsoleReporter().generateFeatureDetails(details, resolution, config.target));
+  } else if (resolution.status === 'ambiguous') {
+    console.error(chalk.yellow(`❓ "${query}" is ambiguous. Candidates: ${resolution.candidates.join(', ')}`));
+  } else if (resolution.status === 'resolved') {
+    // Moved and split entries in newer data carry no status
+    console.error(chalk.yellow(`❓ "${resolution.featureId}" has no Baseline status in the web-features dataset`));
+  } else {
+    console.error(chalk.red(`❓ "${query}" was not found in the web-features dataset`));
+  }
+  
+  if (!details) {
+    process.exit(1);
+  }
+}
+
+async function listFeatures(options: any) {
+  const statuses = ['widely-available', 'newly-available', 'limited'];
+  const invalidStatus = (options.status || []).find((status: string) => !statuses.includes(status));
+  if (invalidStatus) {
+    throw new Error(`Invalid status "${invalidStatus}". Use ${statuses.join(', ')}`);
+  }
+  
+  const config = await loadConfig({ dataFile: options.dataFile });
+  const checker = new BaselineChecker(config);
+  const features = checker.listFeatures({
+    status: options.status,
+    since: options.since,
+    until: options.until,
+    group: options.group,
+    supportedIn: options.supportedIn,
+    unsupportedIn: options.unsupportedIn
+  });
+  
+  let content: string;
+  switch (options.format) {
+    case 'json':
+      content = new JSONReporter().generateFeatureList(features, checker.getDataSource());
+      break;
+    case 'csv':
+      content = new CSVReporter().generateFeatureList(features);
+      break;
+    case 'table':
+      content = new ConsoleReporter().generateFeatureList(features);
+      break;
+    default:
+      throw new Error(`Invalid format "${options.format}". Use table, json or csv`);
+  }
+  
+  if (options.output) {
+    await fs.writeFile(options.output, content);
+    console.log(chalk.green(`📝 Feature list saved to ${options.output}`));
+  } else {
+    console.log(content);
+  }
+}
+
+async function exportData(options: any) {
+  const dataset = FeatureDataset.bundled();
+  
+  await fs.writeFile(options.output, dataset.toSnapshot());
+  console.log(chalk.green(`📦 Exported web-features ${dataset.source.version} (data as of ${dataset.source.date}) to ${options.output}`));
+  console.log(chalk.gray('Pin it with "dataFile" in your configuration or --data-file.'));
+}
+
 async function initializeConfig(options: any) {
   const configPath = 'baselineflow.config.json';
+  assertValidTarget(options.target);
   
   // Check if config already exists
   try {
@@ -208,7 +407,7 @@ async function initializeConfig(options: any) {
   }
   
   const defaultConfig: BaselineConfig = {
-    target: 'widely-available',
+    target: options.target,
     browsers: ['chrome', 'firefox', 'safari', 'edge'],
     exceptions: [],
     ignoreFiles: [
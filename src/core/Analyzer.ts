@@ -1,10 +1,28 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
-import { BaselineConfig, AnalysisResult, FileAnalysis, FeatureUsage, ModernizationSuggestion } from '../types';
+import {
+  BaselineConfig,
+  AnalysisResult,
+  FileAnalysis,
+  FeatureUsage,
+  ModernizationSuggestion,
+  ResolutionDiagnostic,
+  ForecastSummary,
+  FeatureDetails,
+  DiscouragedInfo,
+  EngineFallback
+} from '../types';
 import { BaselineChecker } from './BaselineChecker';
+import { ProjectTypeChecker } from './ProjectTypeChecker';
 import { CSSAnalyzer } from '../analyzers/CSSAnalyzer';
 import { SimpleJavaScriptAnalyzer } from '../analyzers/SimpleJavaScriptAnalyzer';
+import { JavaScriptAnalyzer } from '../analyzers/JavaScriptAnalyzer';
+import { HTMLAnalyzer } from '../analyzers/HTMLAnalyzer';
+import { VueAnalyzer } from '../analyzers/VueAnalyzer';
+import { ComponentAnalyzer } from '../analyzers/ComponentAnalyzer';
+import { AngularAnalyzer } from '../analyzers/AngularAnalyzer';
+import { EmbeddedSource } from '../analyzers/EmbeddedSource';
 
 /**
  * Main analyzer that orchestrates file analysis and generates reports
@@ -13,38 +31,81 @@ export class Analyzer {
   private config: BaselineConfig;
   private baselineChecker: BaselineChecker;
   private cssAnalyzer: CSSAnalyzer;
-  private jsAnalyzer: SimpleJavaScriptAnalyzer;
+  private jsAnalyzer: JavaScriptAnalyzer | SimpleJavaScriptAnalyzer;
+  private htmlAnalyzer: HTMLAnalyzer;
+  private vueAnalyzer: VueAnalyzer;
+  private componentAnalyzer: ComponentAnalyzer;
+  private angularAnalyzer: AngularAnalyzer;
 
   constructor(config: BaselineConfig) {
     this.config = config;
     this.baselineChecker = new BaselineChecker(config);
     this.cssAnalyzer = new CSSAnalyzer(this.baselineChecker);
-    this.jsAnalyzer = new SimpleJavaScriptAnalyzer(this.baselineChecker);
+    const regexAnalyzer = new SimpleJavaScriptAnalyzer(this.baselineChecker);
+    this.jsAnalyzer = config.engine === 'regex'
+      ? regexAnalyzer
+      : new JavaScriptAnalyzer(this.baselineChecker, regexAnalyzer);
+    this.htmlAnalyzer = new HTMLAnalyzer(this.baselineChecker, this.cssAnalyzer, this.jsAnalyzer);
+    this.vueAnalyzer = new VueAnalyzer(this.htmlAnalyzer, this.cssAnalyzer, this.jsAnalyzer);
+    this.componentAnalyzer = new ComponentAnalyzer(this.htmlAnalyzer, this.cssAnalyzer, this.jsAnalyzer);
+    this.angularAnalyzer = new AngularAnalyzer(this.htmlAnalyzer, this.cssAnalyzer);
   }
 
   public async analyzeProject(projectPath: string): Promise<AnalysisResult> {
     const files = await this.findFiles(projectPath);
+
+    if (this.config.typeCheck && this.jsAnalyzer instanceof JavaScriptAnalyzer) {
+      const tsconfig = typeof this.config.typeCheck === 'string' ? this.config.typeCheck : undefined;
+      this.jsAnalyzer.setTypeChecker(ProjectTypeChecker.load(projectPath, tsconfig));
+    }
     const fileAnalyses: FileAnalysis[] = [];
+    const diagnostics = new Map<string, ResolutionDiagnostic[]>();
+    const componentResources = new Set<string>();
+    const engineFallbacks: EngineFallback[] = [];
     
     console.log(`🔍 Analyzing ${files.length} files...`);
 
-    for (const file of files) {
+    // Referenced resources join the queue; each file is analyzed once
+    const queue = [...files];
+    const analyzedFiles = new Set<string>();
+
+    while (queue.length > 0) {
+      const file = queue.shift() as string;
+      if (analyzedFiles.has(file)) {
+        continue;
+      }
+      analyzedFiles.add(file);
+
       try {
         const analysis = await this.analyzeFile(file);
         if (analysis.features.length > 0) {
           fileAnalyses.push(analysis);
         }
+        diagnostics.set(file, analysis.diagnostics || []);
+        queue.push(...(analysis.resources || []));
+        (analysis.resources || []).forEach(resource => componentResources.add(resource));
+        if (analysis.fallbackReason) {
+          engineFallbacks.push({ file, reason: analysis.fallbackReason });
+        }
       } catch (error) {
         console.warn(`⚠️  Failed to analyze ${file}:`, error);
       }
     }
 
-    return this.generateReport(fileAnalyses);
+    // Component stylesheets may have been analyzed as plain CSS before their component
+    for (const resource of componentResources) {
+      const resourceDiagnostics = diagnostics.get(resource);
+      if (resourceDiagnostics) {
+        diagnostics.set(resource, AngularAnalyzer.filterStyleDiagnostics(resourceDiagnostics));
+      }
+    }
+
+    return this.generateReport(fileAnalyses, projectPath, Array.from(diagnostics.values()).flat(), engineFallbacks);
   }
 
   private async findFiles(projectPath: string): Promise<string[]> {
     const patterns = [
-      '**/*.{js,jsx,ts,tsx,css,scss,sass,less}',
+      '**/*.{js,jsx,ts,tsx,css,scss,sass,less,html,htm,vue,svelte,astro}',
       '!node_modules/**',
       '!dist/**',
       '!build/**',
@@ -62,7 +123,7 @@ export class Analyzer {
     return files.filter(file => {
       // Additional filtering
       const ext = path.extname(file).toLowerCase();
-      return ['.js', '.jsx', '.ts', '.tsx', '.css', '.scss', '.sass', '.less'].includes(ext);
+      return ['.js', '.jsx', '.ts', '.tsx', '.css', '.scss', '.sass', '.less', '.html', '.htm', '.vue', '.svelte', '.astro'].includes(ext);
     });
   }
 
@@ -74,7 +135,17 @@ export class Analyzer {
     if (['.css', '.scss', '.sass', '.less'].includes(ext)) {
       return await this.cssAnalyzer.analyze(content, filePath);
     } else if (['.js', '.jsx', '.ts', '.tsx'].includes(ext)) {
-      return await this.jsAnalyzer.analyze(content, filePath);
+      const analysis = await this.jsAnalyzer.analyze(content, filePath);
+      if (this.config.framework === 'angular' && ['.ts', '.tsx'].includes(ext)) {
+        return this.mergeAnalyses(analysis, await this.angularAnalyzer.analyze(content, filePath));
+      }
+      return analysis;
+    } else if (['.html', '.htm'].includes(ext)) {
+      return await this.htmlAnalyzer.analyze(content, filePath);
+    } else if (ext === '.vue') {
+      return await this.vueAnalyzer.analyze(content, filePath);
+    } else if (['.svelte', '.astro'].includes(ext)) {
+      return await this.componentAnalyzer.analyze(content, filePath);
     }
 
     // Return empty analysis for unsupported files
@@ -85,15 +156,39 @@ export class Analyzer {
     };
   }
 
-  private generateReport(fileAnalyses: FileAnalysis[]): AnalysisResult {
+  /**
+   * Combine the analysis of a component's code with that of its metadata
+   */
+  private mergeAnalyses(code: FileAnalysis, component: FileAnalysis): FileAnalysis {
+    return {
+      ...code,
+      framework: component.framework,
+      features: [...code.features, ...component.features],
+      diagnostics: [...(code.diagnostics || []), ...(component.diagnostics || [])],
+      resources: component.resources,
+      fallbackReason: EmbeddedSource.joinFallbackReasons([code.fallbackReason, component.fallbackReason])
+    };
+  }
+
+  private generateReport(
+    fileAnalyses: FileAnalysis[],
+    projectPath: string,
+    diagnostics: ResolutionDiagnostic[],
+    engineFallbacks: EngineFallback[]
+  ): AnalysisResult {
     const allFeatures = fileAnalyses.flatMap(analysis => analysis.features);
+    const { active, suppressed } = this.applyExceptions(allFeatures, projectPath);
     
-    const violations = allFeatures.filter(f => f.severity === 'error');
-    const warnings = allFeatures.filter(f => f.severity === 'warning');
-    const suggestions = allFeatures.filter(f => f.severity === 'info');
+    const violations = active.filter(f => f.severity === 'error');
+    const warnings = active.filter(f => f.severity === 'warning');
+    const suggestions = active.filter(f => f.severity === 'info');
+
+    // Waiting only clears findings that fail on Baseline status, never discouraged ones
+    const failing = [...violations, ...warnings].filter(f => !f.discouraged);
+    const forecast = this.config.asOf ? this.applyForecast(failing, this.config.asOf) : undefined;
 
-    const compatibilityScore = this.calculateCompatibilityScore(allFeatures);
-    const modernizationOpportunities = this.generateModernizationSuggestions(allFeatures);
+    const compatibilityScore = this.calculateCompatibilityScore(active);
+    const modernizationOpportunities = this.generateModernizationSuggestions(active);
 
     return {
       totalFiles: fileAnalyses.length,
@@ -101,16 +196,85 @@ export class Analyzer {
       violations,
       warnings,
       suggestions,
+      suppressed,
+      staleExceptions: this.baselineChecker.getStaleExceptions(),
+      diagnostics: this.mergeDiagnostics(diagnostics),
+      engineFallbacks,
+      data: this.baselineChecker.getDataSource(),
+      forecast,
       summary: {
         errors: violations.length,
         warnings: warnings.length,
         suggestions: suggestions.length,
+        suppressed: suppressed.length,
+        guarded: active.filter(f => f.guard).length,
         compatibilityScore
       },
       modernizationOpportunities
     };
   }
 
+  private applyExceptions(features: FeatureUsage[], projectPath: string): {
+    active: FeatureUsage[];
+    suppressed: FeatureUsage[];
+  } {
+    const active: FeatureUsage[] = [];
+    const suppressed: FeatureUsage[] = [];
+
+    for (const feature of features) {
+      // Only findings that fail the target can be waived
+      const exception = feature.severity !== 'info'
+        ? this.baselineChecker.findException(feature.featureId, path.relative(projectPath, feature.file))
+        : undefined;
+
+      if (exception) {
+        suppressed.push({ ...feature, exception });
+      } else {
+        active.push(feature);
+      }
+    }
+
+    return { active, suppressed };
+  }
+
+  private applyForecast(findings: FeatureUsage[], asOf: string): ForecastSummary {
+    let resolved = 0;
+
+    for (const finding of findings) {
+      finding.forecast = this.baselineChecker.forecastFeature(finding.featureId, asOf);
+      if (finding.forecast?.meetsCriteria) {
+        resolved++;
+      }
+    }
+
+    return {
+      asOf,
+      resolved,
+      remaining: findings.length - resolved
+    };
+  }
+
+  private mergeDiagnostics(diagnostics: ResolutionDiagnostic[]): ResolutionDiagnostic[] {
+    const merged = new Map<string, ResolutionDiagnostic>();
+
+    for (const diagnostic of diagnostics) {
+      const key = `${diagnostic.status}:${diagnostic.query}`;
+      const existing = merged.get(key);
+
+      if (existing) {
+        existing.locations.push(...diagnostic.locations);
+      } else {
+        merged.set(key, { ...diagnostic, locations: [...diagnostic.locations] });
+      }
+    }
+
+    // Ambiguous lookups first, then by number of occurrences
+    return Array.from(merged.values()).sort((a, b) =>
+      (a.status === b.status ? 0 : a.status === 'ambiguous' ? -1 : 1) ||
+      b.locations.length - a.locations.length
+    );
+  }
+
   private calculateCompatibilityScore(features: FeatureUsage[]): number {
     if (features.length === 0) return 100;
 
@@ -176,6 +340,31 @@ export class Analyzer {
       });
     }
 
+    // Features web-features marks as discouraged, with the dataset's alternatives
+    const discouragedFeatures = new Map<string, { feature: FeatureUsage; discouraged: DiscouragedInfo }>();
+    features.forEach(feature => {
+      const { discouraged } = feature;
+      if (discouraged && !discouragedFeatures.has(feature.featureId)) {
+        discouragedFeatures.set(feature.featureId, { feature, discouraged });
+      }
+    });
+
+    for (const { feature, discouraged } of discouragedFeatures.values()) {
+      const alternatives = discouraged.alternatives
+        .map(id => this.baselineChecker.describeFeature(id))
+        .filter((details): details is FeatureDetails => details !== null);
+
+      suggestions.push({
+        category: featureGroups.css.includes(feature) ? 'css' : featureGroups.html.includes(feature) ? 'html' : 'javascript',
+        oldFeature: this.baselineChecker.describeFeature(feature.featureId)?.name || feature.featureId,
+        newFeature: alternatives.length > 0 ? alternatives.map(details => details.name).join(' or ') : 'No direct replacement',
+        baselineStatus: alternatives.length > 0 ? alternatives[0].baseline : 'discouraged',
+        impact: 'high',
+        effort: 'medium',
+        description: discouraged.reason || 'This feature is discouraged and may be removed from browsers'
+      });
+    }
+
     return suggestions;
   }
 
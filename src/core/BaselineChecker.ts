@@ -1,46 +1,60 @@
-import { features, browsers as browserData } from 'web-features';
-import { FeatureUsage, BrowserSupport, BaselineConfig } from '../types';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import {
+  FeatureUsage,
+  BrowserSupport,
+  BaselineConfig,
+  BaselineException,
+  BaselineTarget,
+  BrowserFailure,
+  FeatureResolution,
+  FeatureDetails,
+  FeatureFilter,
+  FeatureForecast,
+  DiscouragedInfo,
+  CustomDetector,
+  DataSource
+} from '../types';
+import { BrowserMatrix } from './BrowserMatrix';
+import { FeatureDataset } from './FeatureDataset';
+import { FeatureResolver } from './FeatureResolver';
 
 /**
  * Core class for checking Baseline compatibility of web features
  */
 export class BaselineChecker {
   private config: BaselineConfig;
-  private featureMap: Map<string, any>;
+  private data: FeatureDataset;
+  private resolver: FeatureResolver;
+  private exceptions: BaselineException[];
+  private browserMatrix?: BrowserMatrix;
   
   constructor(config: BaselineConfig) {
     this.config = config;
-    this.featureMap = new Map();
-    this.initializeFeatureMap();
-  }
-
-  private initializeFeatureMap(): void {
-    // Build a searchable map of features
-    Object.entries(features).forEach(([id, feature]) => {
-      const f = feature as any;
-      this.featureMap.set(id, f);
-      
-      // Add alternative searchable names
-      if (f.name) {
-        this.featureMap.set(f.name.toLowerCase(), f);
-      }
-      
-      // Map CSS features from compat_features
-      if (f.compat_features) {
-        f.compat_features.forEach((compat: string) => {
-          this.featureMap.set(compat, f);
-          
-          // Extract CSS property names from compat strings
-          if (compat.startsWith('css.properties.')) {
-            const prop = compat.replace('css.properties.', '');
-            this.featureMap.set(prop, f);
-          }
-        });
-      }
-      
-      // Add common feature name mappings
-      this.addCommonMappings(id, f);
-    });
+    this.data = FeatureDataset.load(config.dataFile);
+    this.resolver = new FeatureResolver(this.data.features);
+    this.registerCustomFeatures();
+    this.exceptions = this.validateExceptions(config.exceptions || []);
+
+    if (config.target === 'browsers') {
+      this.browserMatrix = new BrowserMatrix(config.browsers, this.data.browsers);
+    }
+  }
+
+  /**
+   * Get the year of a "baseline-<year>" target, or null for status targets
+   */
+  public static getTargetYear(target: string): number | null {
+    const match = /^baseline-(\d{4})$/.exec(target);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  /**
+   * Check whether a string is a supported Baseline target
+   */
+  public static isValidTarget(target: string): target is BaselineTarget {
+    return ['widely-available', 'newly-available', 'limited', 'browsers'].includes(target) ||
+      BaselineChecker.getTargetYear(target) !== null;
   }
 
   /**
@@ -49,89 +63,183 @@ export class BaselineChecker {
   public checkFeature(featureId: string): {
     baseline: 'widely-available' | 'newly-available' | 'limited' | null;
     browsers: BrowserSupport;
+    failingBrowsers?: BrowserFailure[];
+    baselineLowDate?: string;
+    baselineHighDate?: string;
     meetsCriteria: boolean;
     suggestion?: string;
+    alternative?: string;
+    discouraged?: DiscouragedInfo;
+    featureId?: string;
+    resolution: FeatureResolution;
   } {
-    const feature = this.findFeature(featureId);
+    const resolution = this.resolver.resolve(featureId);
+    const feature = resolution.featureId ? (this.data.features as Record<string, any>)[resolution.featureId] : undefined;
     
     if (!feature || !feature.status) {
       return {
         baseline: null,
         browsers: {},
         meetsCriteria: false,
-        suggestion: `Feature "${featureId}" not found in web-features database`
+        suggestion: resolution.status === 'ambiguous'
+          ? `Feature "${featureId}" is ambiguous in web-features database: ${resolution.candidates.join(', ')}`
+          : `Feature "${featureId}" not found in web-features database`,
+        resolution
       };
     }
 
     const baseline = this.getBaselineStatus(feature.status);
     const browsers = this.getBrowserSupport(feature.status);
-    const meetsCriteria = this.evaluateCriteria(baseline);
-    const suggestion = this.generateSuggestion(feature, baseline);
+    const baselineLowDate = this.normalizeDate(feature.status.baseline_low_date);
+    const baselineHighDate = this.normalizeDate(feature.status.baseline_high_date);
+    const failingBrowsers = this.browserMatrix?.check(browsers);
+    const meetsCriteria = failingBrowsers
+      ? failingBrowsers.length === 0
+      : this.evaluateCriteria(baseline, baselineLowDate);
+    const discouraged = this.getDiscouraged(feature);
+    const suggestion = discouraged
+      ? `Feature is discouraged${discouraged.reason ? `: ${discouraged.reason}` : ''}`
+      : failingBrowsers
+        ? this.generateBrowserSuggestion(failingBrowsers)
+        : this.generateSuggestion(feature, baseline, baselineLowDate, meetsCriteria);
 
     return {
       baseline,
       browsers,
+      failingBrowsers,
+      baselineLowDate,
+      baselineHighDate,
       meetsCriteria,
-      suggestion
+      suggestion,
+      alternative: discouraged ? this.formatAlternatives(discouraged) : undefined,
+      discouraged,
+      featureId: resolution.featureId,
+      resolution
     };
   }
 
-  private findFeature(query: string): any {
-    // Direct ID match
-    if (this.featureMap.has(query)) {
-      return this.featureMap.get(query);
+  /**
+   * Re-evaluate a feature as if the check ran on a given date (YYYY-MM-DD).
+   * Features become widely available 30 months after reaching Baseline low.
+   */
+  public forecastFeature(featureId: string, asOf: string): FeatureForecast | undefined {
+    const id = this.resolver.resolve(featureId).featureId;
+    const feature = id ? (this.data.features as Record<string, any>)[id] : undefined;
+    if (!feature || !feature.status) {
+      return undefined;
     }
 
-    // Lowercase match
-    const lowerQuery = query.toLowerCase();
-    if (this.featureMap.has(lowerQuery)) {
-      return this.featureMap.get(lowerQuery);
-    }
+    const baselineLowDate = this.normalizeDate(feature.status.baseline_low_date);
+    const widelyAvailableDate = this.normalizeDate(feature.status.baseline_high_date) ||
+      (baselineLowDate ? this.addMonths(baselineLowDate, 30) : undefined);
 
-    // CSS property matching (remove prefixes, handle variations)
-    const cssVariations = this.generateCssVariations(query);
-    for (const variation of cssVariations) {
-      if (this.featureMap.has(variation)) {
-        return this.featureMap.get(variation);
-      }
+    let baseline: FeatureForecast['baseline'] = 'limited';
+    if (widelyAvailableDate && widelyAvailableDate <= asOf) {
+      baseline = 'widely-available';
+    } else if (baselineLowDate && baselineLowDate <= asOf) {
+      baseline = 'newly-available';
     }
 
-    // Fuzzy search for partial matches
-    return this.fuzzySearch(query);
+    return {
+      baseline,
+      meetsCriteria: this.evaluateCriteria(baseline, baseline === 'limited' ? undefined : baselineLowDate),
+      widelyAvailableDate
+    };
   }
 
-  private generateCssVariations(property: string): string[] {
-    const variations = [property];
-    
-    // Remove vendor prefixes
-    const withoutPrefix = property.replace(/^-(?:webkit-|moz-|ms-|o-)/, '');
-    if (withoutPrefix !== property) {
-      variations.push(withoutPrefix);
+  /**
+   * Get the project-specific call detectors from the configuration
+   */
+  public getCustomDetectors(): CustomDetector[] {
+    return this.config.detectors || [];
+  }
+
+  /**
+   * Get the tag names whose template literals contain CSS, e.g. styled.div`...`
+   */
+  public getCssTemplateTags(): string[] {
+    return this.config.cssTemplateTags || ['css', 'styled', 'createGlobalStyle', 'keyframes', 'injectGlobal'];
+  }
+
+  /**
+   * Get the severity to report discouraged features with
+   */
+  public getDiscouragedSeverity(): 'error' | 'warning' | 'info' {
+    return this.config.discouragedSeverity || 'warning';
+  }
+
+  /**
+   * Get the severity to report failing features that are behind a feature test with
+   */
+  public getGuardedSeverity(): 'error' | 'warning' | 'info' {
+    return this.config.guardedSeverity || 'info';
+  }
+
+  /**
+   * Get the severity to report a checked feature with. Discouraged features use
+   * the discouraged severity and failing features behind a feature test the
+   * guarded one; otherwise limited features are errors and other failing ones
+   * warnings.
+   */
+  public getSeverity(
+    result: { baseline: string | null; meetsCriteria: boolean; discouraged?: DiscouragedInfo },
+    guard?: string
+  ): 'error' | 'warning' | 'info' {
+    if (result.discouraged) {
+      return this.getDiscouragedSeverity();
+    }
+    if (result.meetsCriteria) {
+      return 'info';
+    }
+    if (guard) {
+      return this.getGuardedSeverity();
     }
+    return result.baseline === 'limited' ? 'error' : 'warning';
+  }
 
-    // Convert camelCase to kebab-case
-    const kebab = property.replace(/([A-Z])/g, '-$1').toLowerCase();
-    variations.push(kebab);
+  /**
+   * Get the version and date of the web-features data in use
+   */
+  public getDataSource(): DataSource {
+    return this.data.source;
+  }
 
-    // Handle common CSS feature patterns
-    variations.push(`css-${withoutPrefix}`);
-    variations.push(`css.properties.${withoutPrefix}`);
-    
-    return variations;
+  /**
+   * Resolve a token to a web-features ID without evaluating it
+   */
+  public resolveFeature(query: string): FeatureResolution {
+    return this.resolver.resolve(query);
   }
 
-  private fuzzySearch(query: string): any {
-    const queryLower = query.toLowerCase();
-    
-    // Search through feature names and IDs
-    for (const [key, feature] of this.featureMap.entries()) {
-      if (key.includes(queryLower) || 
-          (feature.name && feature.name.toLowerCase().includes(queryLower))) {
-        return feature;
-      }
+  /**
+   * Describe a feature from the dataset and how it fares against the target.
+   * Entries without a status, such as moved or split features in newer data,
+   * are not described.
+   */
+  public describeFeature(query: string): FeatureDetails | null {
+    const id = this.resolver.resolve(query).featureId;
+    const feature = id ? (this.data.features as Record<string, any>)[id] : undefined;
+    if (!id || !feature || !feature.status) {
+      return null;
     }
-    
-    return null;
+
+    const result = this.checkFeature(id);
+
+    return {
+      id,
+      name: feature.name,
+      description: feature.description,
+      groups: feature.group ? [feature.group].flat() : [],
+      baseline: this.getBaselineStatus(feature.status),
+      baselineLowDate: result.baselineLowDate,
+      baselineHighDate: result.baselineHighDate,
+      browsers: result.browsers,
+      compatFeatures: feature.compat_features || [],
+      aliases: this.resolver.getAliases(id),
+      meetsCriteria: result.meetsCriteria,
+      failingBrowsers: result.failingBrowsers,
+      discouraged: result.discouraged
+    };
   }
 
   private getBaselineStatus(status: any): 'widely-available' | 'newly-available' | 'limited' {
@@ -156,10 +264,44 @@ export class BaselineChecker {
     };
   }
 
-  private evaluateCriteria(baseline: string): boolean {
-    // Check if feature is allowed based on exceptions
-    const isException = this.config.exceptions.length > 0;
-    
+  private getDiscouraged(feature: any): DiscouragedInfo | undefined {
+    if (!feature.discouraged) {
+      return undefined;
+    }
+
+    return {
+      reason: feature.discouraged.reason,
+      alternatives: (feature.discouraged.alternatives || []).filter((id: string) => this.resolver.hasFeature(id)),
+      accordingTo: feature.discouraged.according_to || [],
+      removalDate: feature.discouraged.removal_date
+    };
+  }
+
+  private formatAlternatives(discouraged: DiscouragedInfo): string | undefined {
+    if (discouraged.alternatives.length === 0) {
+      return undefined;
+    }
+
+    const names = discouraged.alternatives.map(id => (this.data.features as Record<string, any>)[id].name || id);
+    return `Use ${names.join(' or ')} instead`;
+  }
+
+  private normalizeDate(date?: string): string | undefined {
+    // Dates before the BCD cut-off are published as "≤YYYY-MM-DD"
+    return date ? date.replace(/^≤/, '') : undefined;
+  }
+
+  private addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+    return new Date(Date.UTC(year, month - 1 + months, day || 1)).toISOString().slice(0, 10);
+  }
+
+  private evaluateCriteria(baseline: string, baselineLowDate?: string): boolean {
+    const targetYear = BaselineChecker.getTargetYear(this.config.target);
+    if (targetYear !== null) {
+      return !!baselineLowDate && parseInt(baselineLowDate.slice(0, 4), 10) <= targetYear;
+    }
+
     switch (this.config.target) {
       case 'widely-available':
         return baseline === 'widely-available';
@@ -172,10 +314,22 @@ export class BaselineChecker {
     }
   }
 
-  private generateSuggestion(feature: any, baseline: string): string | undefined {
+  private generateSuggestion(
+    feature: any,
+    baseline: string,
+    baselineLowDate: string | undefined,
+    meetsCriteria: boolean
+  ): string | undefined {
     if (baseline === 'limited') {
       return `Consider using a polyfill or waiting for broader browser support. Check caniuse.com for alternatives.`;
     }
+
+    const targetYear = BaselineChecker.getTargetYear(this.config.target);
+    if (targetYear !== null) {
+      return meetsCriteria
+        ? undefined
+        : `Feature became Baseline on ${baselineLowDate}, after the Baseline ${targetYear} target. Consider progressive enhancement or polyfills.`;
+    }
     
     if (baseline === 'newly-available' && this.config.target === 'widely-available') {
       return `Feature is newly available in Baseline. Consider progressive enhancement or polyfills for older browsers.`;
@@ -184,6 +338,173 @@ export class BaselineChecker {
     return undefined;
   }
 
+  /**
+   * List dataset features matching a filter, sorted by ID
+   */
+  public listFeatures(filter: FeatureFilter = {}): FeatureDetails[] {
+    const supportedIn = filter.supportedIn ? new BrowserMatrix(filter.supportedIn, this.data.browsers) : undefined;
+    const unsupportedIn = filter.unsupportedIn ? new BrowserMatrix(filter.unsupportedIn, this.data.browsers) : undefined;
+    const group = filter.group;
+
+    return Object.keys(this.data.features)
+      .sort()
+      .map(id => this.describeFeature(id))
+      .filter((details): details is FeatureDetails => details !== null)
+      .filter(details => {
+        if (filter.status && !filter.status.includes(details.baseline)) {
+          return false;
+        }
+
+        if (filter.since || filter.until) {
+          // The date the feature reached its current status
+          const date = details.baseline === 'widely-available' ? details.baselineHighDate : details.baselineLowDate;
+          if (!date || (filter.since && date < filter.since) || (filter.until && date.slice(0, filter.until.length) > filter.until)) {
+            return false;
+          }
+        }
+
+        if (group && !details.groups.some(featureGroup => this.isInGroup(featureGroup, group))) {
+          return false;
+        }
+
+        if (supportedIn && supportedIn.check(details.browsers).length > 0) {
+          return false;
+        }
+
+        if (unsupportedIn && unsupportedIn.check(details.browsers).length === 0) {
+          return false;
+        }
+
+        return true;
+      });
+  }
+
+  private isInGroup(group: string | undefined, target: string): boolean {
+    const groupData = this.data.groups as Record<string, { parent?: string }>;
+    const visited = new Set<string>();
+
+    while (group && !visited.has(group)) {
+      if (group === target) {
+        return true;
+      }
+      visited.add(group);
+      group = groupData[group]?.parent;
+    }
+
+    return false;
+  }
+
+  /**
+   * Find the active exception that waives a feature, optionally scoped to a
+   * file path relative to the project root
+   */
+  public findException(featureId: string, filePath?: string): BaselineException | undefined {
+    const resolvedId = this.resolver.resolve(featureId).featureId;
+
+    return this.exceptions.find(exception => {
+      if (this.isExpired(exception)) {
+        return false;
+      }
+
+      const matchesFeature = exception.feature === featureId ||
+        (!!resolvedId && this.resolver.resolve(exception.feature).featureId === resolvedId);
+
+      return matchesFeature && this.matchesScope(exception, filePath);
+    });
+  }
+
+  /**
+   * Get exceptions whose expiry date has passed
+   */
+  public getStaleExceptions(): BaselineException[] {
+    return this.exceptions.filter(exception => this.isExpired(exception));
+  }
+
+  private registerCustomFeatures(): void {
+    const errors: string[] = [];
+
+    Object.entries(this.config.aliases || {}).forEach(([alias, featureId]) => {
+      if (!this.resolver.addAlias(alias, featureId)) {
+        errors.push(`alias "${alias}" maps to ${this.describeUnknownFeature(featureId)}`);
+      }
+    });
+
+    (this.config.detectors || []).forEach(detector => {
+      if (!detector || !detector.call || !detector.feature) {
+        errors.push(`detector ${JSON.stringify(detector)} needs a "call" and a "feature"`);
+      } else if (!this.resolver.addAlias(detector.call, detector.feature)) {
+        errors.push(`detector "${detector.call}" maps to ${this.describeUnknownFeature(detector.feature)}`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+    }
+  }
+
+  private describeUnknownFeature(featureId: string): string {
+    const resolution = this.resolver.resolve(featureId);
+    const hint = resolution.status === 'unresolved' ? '' : ` (did you mean ${resolution.candidates.map(id => `"${id}"`).join(' or ')}?)`;
+    return `unknown web-features ID "${featureId}"${hint}`;
+  }
+
+  private validateExceptions(exceptions: BaselineException[]): BaselineException[] {
+    const errors: string[] = [];
+
+    exceptions.forEach(exception => {
+      if (typeof exception !== 'object' || !exception.feature) {
+        errors.push(`exception ${JSON.stringify(exception)} needs a "feature"`);
+      } else if (!exception.reason || !exception.reason.trim()) {
+        errors.push(`exception for "${exception.feature}" needs a "reason"`);
+      } else if (exception.expires && isNaN(Date.parse(exception.expires))) {
+        errors.push(`exception for "${exception.feature}" has an invalid expiry date "${exception.expires}"`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+    }
+    return exceptions;
+  }
+
+  private isExpired(exception: BaselineException): boolean {
+    if (!exception.expires) {
+      return false;
+    }
+
+    // The exception still applies on its expiry day
+    const today = new Date().toISOString().slice(0, 10);
+    return new Date(exception.expires).toISOString().slice(0, 10) < today;
+  }
+
+  private matchesScope(exception: BaselineException, filePath?: string): boolean {
+    if (!exception.files) {
+      return true;
+    }
+
+    if (!filePath) {
+      return false;
+    }
+
+    const patterns = Array.isArray(exception.files) ? exception.files : [exception.files];
+    const normalizedPath = filePath.split(path.sep).join('/');
+
+    return patterns.some(pattern => minimatch(normalizedPath, pattern, { dot: true }));
+  }
+
+  private generateBrowserSuggestion(failingBrowsers: BrowserFailure[]): string | undefined {
+    if (failingBrowsers.length === 0) {
+      return undefined;
+    }
+
+    const details = failingBrowsers.map(failure => {
+      const name = `${BrowserMatrix.getBrowserName(failure.browser)} ${failure.minimumVersion}`;
+      return failure.supportedSince ? `${name} (supported from ${failure.supportedSince})` : `${name} (not supported)`;
+    });
+
+    return `Not supported in configured browsers: ${details.join(', ')}. Consider progressive enhancement or polyfills.`;
+  }
+
   /**
    * Get modernization suggestions for legacy features
    */
@@ -230,29 +551,4 @@ export class BaselineChecker {
 
     return suggestions;
   }
-
-  private addCommonMappings(id: string, feature: any): void {
-    // Add common CSS and JavaScript feature mappings
-    const mappings: Record<string, string[]> = {
-      'flexbox': ['flex', 'flexbox', 'css-flexbox'],
-      'css-grid': ['grid', 'css-grid', 'grid-template-columns'],
-      'container-queries': ['container-queries', '@container'],
-      'custom-properties': ['css-variables', 'css-custom-properties', '--'],
-      'fetch': ['fetch', 'fetch-api'],
-      'promises': ['promise', 'promises'],
-      'async-functions': ['async', 'async-await'],
-      'arrow-functions': ['arrow-functions', '=>'],
-      'template-literals': ['template-literals', 'template-strings'],
-      'destructuring-assignment': ['destructuring'],
-      'spread-syntax': ['spread-operator', '...'],
-      'optional-chaining': ['?.'],
-      'nullish-coalescing': ['??']
-    };
-
-    if (mappings[id]) {
-      mappings[id].forEach(alias => {
-        this.featureMap.set(alias, feature);
-      });
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { browsers as browserData } from 'web-features';
+import { BrowserSupport, BrowserFailure } from '../types';
+
+type BrowserId = keyof BrowserSupport;
+
+/**
+ * Browserslist names mapped to web-features browser identifiers
+ */
+const BROWSER_ALIASES: Record<string, BrowserId> = {
+  'chrome': 'chrome',
+  'firefox': 'firefox',
+  'ff': 'firefox',
+  'safari': 'safari',
+  'edge': 'edge',
+  'chrome_android': 'chrome_android',
+  'and_chr': 'chrome_android',
+  'chromeandroid': 'chrome_android',
+  'firefox_android': 'firefox_android',
+  'and_ff': 'firefox_android',
+  'firefoxandroid': 'firefox_android',
+  'safari_ios': 'safari_ios',
+  'ios_saf': 'safari_ios',
+  'ios': 'safari_ios'
+};
+
+/**
+ * Resolves a browserslist-style query against the bundled web-features
+ * browser releases and checks feature support against the resulting
+ * per-browser minimum versions
+ */
+export class BrowserMatrix {
+  private minimums: Map<BrowserId, string | null>;
+  private releases: typeof browserData;
+
+  constructor(query: string | string[], releases: typeof browserData = browserData) {
+    this.minimums = new Map();
+    this.releases = releases;
+
+    const entries = (Array.isArray(query) ? query : [query])
+      .flatMap(entry => entry.split(','))
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0);
+
+    entries.forEach(entry => this.addEntry(entry));
+  }
+
+  /**
+   * Get the resolved minimum version per browser (null means any version)
+   */
+  public getMinimums(): Partial<Record<BrowserId, string | null>> {
+    return Object.fromEntries(this.minimums);
+  }
+
+  /**
+   * Get the browsers whose minimum version does not support a feature
+   */
+  public check(support: BrowserSupport): BrowserFailure[] {
+    const failures: BrowserFailure[] = [];
+
+    for (const [browser, minimum] of this.minimums) {
+      const supportedSince = support[browser];
+
+      if (!supportedSince) {
+        failures.push({ browser, minimumVersion: minimum || 'any' });
+      } else if (minimum !== null && BrowserMatrix.compareVersions(supportedSince, minimum) > 0) {
+        failures.push({ browser, minimumVersion: minimum, supportedSince });
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Get the display name of a browser, e.g. "Safari on iOS"
+   */
+  public static getBrowserName(browser: BrowserId): string {
+    return browserData[browser]?.name || browser;
+  }
+
+  /**
+   * Compare two version strings such as "15.4" and "≤79"
+   */
+  public static compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.replace(/^≤/, '').split('.').map(part => parseInt(part, 10) || 0);
+    const left = parse(a);
+    const right = parse(b);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const diff = (left[i] || 0) - (right[i] || 0);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+
+    return 0;
+  }
+
+  private addEntry(entry: string): void {
+    let match: RegExpExecArray | null;
+
+    // "chrome", "safari_ios >= 15.4", "ios_saf 15.4"
+    if ((match = /^([a-z_]+)(?:\s*(?:>=)?\s*(\d+(?:\.\d+)*))?$/i.exec(entry))) {
+      this.setMinimum(this.resolveBrowser(match[1], entry), match[2] || null);
+      return;
+    }
+
+    // "last 2 versions", "last 2 safari versions"
+    if ((match = /^last\s+(\d+)\s+(?:([a-z_]+)\s+)?versions?$/i.exec(entry))) {
+      const count = parseInt(match[1], 10);
+      const targets = match[2] ? [this.resolveBrowser(match[2], entry)] : this.allBrowsers();
+
+      targets.forEach(browser => {
+        const releases = this.releases[browser].releases;
+        const release = releases[Math.max(releases.length - count, 0)];
+        this.setMinimum(browser, release.version);
+      });
+      return;
+    }
+
+    // "since 2022", "since 2022-06"
+    if ((match = /^since\s+(\d{4}(?:-\d{2}(?:-\d{2})?)?)$/i.exec(entry))) {
+      const since = match[1];
+
+      this.allBrowsers().forEach(browser => {
+        const release = this.releases[browser].releases.find(r => r.date >= since);
+        if (release) {
+          this.setMinimum(browser, release.version);
+        }
+      });
+      return;
+    }
+
+    throw new Error(`Unsupported browsers query "${entry}"`);
+  }
+
+  private resolveBrowser(name: string, entry: string): BrowserId {
+    const browser = BROWSER_ALIASES[name.toLowerCase()];
+    if (!browser) {
+      throw new Error(`Unknown browser "${name}" in browsers query "${entry}"`);
+    }
+    return browser;
+  }
+
+  private allBrowsers(): BrowserId[] {
+    return Object.keys(this.releases) as BrowserId[];
+  }
+
+  private setMinimum(browser: BrowserId, version: string | null): void {
+    // Like browserslist, multiple entries widen the range to the oldest version
+    if (!this.minimums.has(browser)) {
+      this.minimums.set(browser, version);
+      return;
+    }
+
+    const current = this.minimums.get(browser);
+    if (current === null || version === null) {
+      this.minimums.set(browser, null);
+    } else if (BrowserMatrix.compareVersions(version, current as string) < 0) {
+      this.minimums.set(browser, version);
+    }
+  }
+}
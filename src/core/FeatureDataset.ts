@@ -0,0 +1,118 @@
+import * as webFeatures from 'web-features';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataSource } from '../types';
+
+type WebFeaturesData = Pick<typeof webFeatures, 'browsers' | 'features' | 'groups' | 'snapshots'>;
+
+/**
+ * A data file as read from disk, before its shape has been checked
+ */
+type WebFeaturesFile = Partial<WebFeaturesData> & {
+  meta?: { version?: string; date?: string };
+};
+
+/**
+ * The web-features data a check runs against: either the copy bundled with the
+ * installed package or a frozen snapshot file, so results do not move when the
+ * dependency is upgraded
+ */
+export class FeatureDataset {
+  public readonly browsers: WebFeaturesData['browsers'];
+  public readonly features: WebFeaturesData['features'];
+  public readonly groups: WebFeaturesData['groups'];
+  public readonly snapshots: WebFeaturesData['snapshots'];
+  public readonly source: DataSource;
+
+  private constructor(data: WebFeaturesData, source: DataSource) {
+    this.browsers = data.browsers;
+    this.features = data.features;
+    this.groups = data.groups || {};
+    this.snapshots = data.snapshots || {};
+    this.source = source;
+  }
+
+  /**
+   * Load a snapshot file if one is given, otherwise the bundled data
+   */
+  public static load(dataFile?: string): FeatureDataset {
+    return dataFile ? FeatureDataset.fromFile(dataFile) : FeatureDataset.bundled();
+  }
+
+  /**
+   * Get the data bundled with the installed web-features package
+   */
+  public static bundled(): FeatureDataset {
+    return new FeatureDataset(webFeatures, {
+      type: 'bundled',
+      version: FeatureDataset.getBundledVersion(),
+      date: FeatureDataset.getLatestReleaseDate(webFeatures.browsers)
+    });
+  }
+
+  /**
+   * Load a snapshot written by "baselineflow data export", or a raw web-features data.json
+   */
+  public static fromFile(dataFile: string): FeatureDataset {
+    const filePath = path.resolve(dataFile);
+    let data: WebFeaturesFile | null;
+
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read web-features data file "${dataFile}": ${message}`);
+    }
+
+    if (!data || typeof data.features !== 'object' || typeof data.browsers !== 'object') {
+      throw new Error(`Invalid web-features data file "${dataFile}": expected "features" and "browsers" objects`);
+    }
+
+    return new FeatureDataset(data as WebFeaturesData, {
+      type: 'snapshot',
+      version: data.meta?.version || 'unknown',
+      date: data.meta?.date || FeatureDataset.getLatestReleaseDate(data.browsers),
+      file: filePath
+    });
+  }
+
+  /**
+   * Serialize the data as a snapshot file
+   */
+  public toSnapshot(): string {
+    return JSON.stringify({
+      meta: {
+        package: 'web-features',
+        version: this.source.version,
+        date: this.source.date,
+        exportedAt: new Date().toISOString()
+      },
+      browsers: this.browsers,
+      features: this.features,
+      groups: this.groups,
+      snapshots: this.snapshots
+    }, null, 2);
+  }
+
+  private static getBundledVersion(): string {
+    // web-features does not export its package.json, so read it next to data.json
+    try {
+      const dataPath = require.resolve('web-features/data.json');
+      const packageJson = fs.readFileSync(path.join(path.dirname(dataPath), 'package.json'), 'utf8');
+      return JSON.parse(packageJson).version || 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  private static getLatestReleaseDate(browsers: Record<string, { releases: Array<{ date: string }> }>): string | undefined {
+    // The newest browser release the data knows about dates the dataset
+    const dates = Object.values(browsers)
+      .flatMap(browser => browser.releases || [])
+      .map(release => release.date)
+      .filter(Boolean)
+      .sort();
+
+    return dates[dates.length - 1];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { FeatureResolution, ResolutionConfidence } from '../types';
+
+/**
+ * Curated aliases for tokens emitted by the analyzers, mapped to web-features IDs
+ * or compat keys. Every target must exist in the bundled dataset.
+ */
+export const CURATED_ALIASES: Record<string, string> = {
+  'flex': 'flexbox',
+  'css-flexbox': 'flexbox',
+  'css-grid': 'grid',
+  'css-variables': 'custom-properties',
+  'css-custom-properties': 'custom-properties',
+  '--': 'custom-properties',
+  'fetch-api': 'fetch',
+  'promises': 'promise',
+  'async': 'async-await',
+  'async-functions': 'async-await',
+  'es6-class': 'class-syntax',
+  'es6-modules': 'js-modules',
+  'arrow-functions': 'javascript.functions.arrow_functions',
+  '=>': 'javascript.functions.arrow_functions',
+  'intersectionobserver': 'intersection-observer',
+  'abortcontroller': 'aborting',
+  'abort-controller': 'aborting',
+  'requestanimationframe': 'request-animation-frame',
+  'web-crypto-api': 'web-cryptography',
+  'clipboard-api': 'async-clipboard',
+  'web-audio-api': 'web-audio',
+  'offscreencanvas': 'offscreen-canvas',
+  'weakref': 'weak-references',
+  'array-findindex': 'array-find',
+  'array-entries': 'array-iterators',
+  'array-keys': 'array-iterators',
+  'array-values': 'array-iterators',
+  'array-map': 'array-iteration-methods',
+  'array-filter': 'array-iteration-methods',
+  'array-reduce': 'array-iteration-methods',
+  'array-foreach': 'array-iteration-methods',
+  'array-some': 'array-iteration-methods',
+  'array-every': 'array-iteration-methods',
+  'array-flatmap': 'array-flat',
+  'array-findlastindex': 'array-findlast',
+  'array-tosorted': 'array-by-copy',
+  'array-toreversed': 'array-by-copy',
+  'array-tospliced': 'array-by-copy',
+  'array-with': 'array-by-copy',
+  'string-startswith': 'string-startsends-with',
+  'string-endswith': 'string-startsends-with',
+  'string-padstart': 'string-pad',
+  'string-padend': 'string-pad',
+  'string-trimstart': 'string-trim-startend',
+  'string-trimend': 'string-trim-startend'
+};
+
+/**
+ * The parts of a web-features entry the lookup is built from
+ */
+interface IndexedFeature {
+  name?: string;
+  compat_features?: string[];
+}
+
+/**
+ * Deterministic lookup of analyzer tokens to web-features IDs.
+ *
+ * Lookups are tried in order of confidence: web-features IDs, compat_features
+ * keys, curated aliases, then aliases derived from the dataset (feature names,
+ * CSS property and at-rule names, API and builtin member paths). Derived aliases
+ * shared by several features are reported as ambiguous rather than guessed.
+ */
+export class FeatureResolver {
+  private ids: Set<string>;
+  private compatKeys: Map<string, string>;
+  private aliases: Map<string, string>;
+  private derived: Map<string, Set<string>>;
+
+  constructor(features: Record<string, IndexedFeature>) {
+    this.ids = new Set(Object.keys(features));
+    this.compatKeys = new Map();
+    this.aliases = new Map();
+    this.derived = new Map();
+
+    Object.entries(features).forEach(([id, feature]) => {
+      if (feature.name) {
+        this.addDerived(feature.name, id);
+      }
+
+      (feature.compat_features || []).forEach(compat => {
+        this.compatKeys.set(compat, id);
+        this.addDerivedFromCompatKey(compat, id);
+      });
+    });
+
+    Object.entries(CURATED_ALIASES).forEach(([alias, id]) => this.addAlias(alias, id));
+  }
+
+  /**
+   * Register an alias for a web-features ID or compat key; returns false if the
+   * target is unknown
+   */
+  public addAlias(alias: string, target: string): boolean {
+    const featureId = this.ids.has(target) ? target : this.compatKeys.get(target);
+    if (!featureId) {
+      return false;
+    }
+
+    this.aliases.set(alias.toLowerCase(), featureId);
+    return true;
+  }
+
+  /**
+   * Check whether a web-features ID exists in the dataset
+   */
+  public hasFeature(featureId: string): boolean {
+    return this.ids.has(featureId);
+  }
+
+  /**
+   * Get the curated and derived aliases that resolve to a feature, leaving out
+   * derived member paths that merely restate its compat keys
+   */
+  public getAliases(featureId: string): string[] {
+    const aliases = new Set<string>();
+
+    for (const [alias, id] of this.aliases) {
+      if (id === featureId) {
+        aliases.add(alias);
+      }
+    }
+
+    for (const [alias, ids] of this.derived) {
+      if (ids.size === 1 && ids.has(featureId) && alias !== featureId && !alias.includes('.')) {
+        aliases.add(alias);
+      }
+    }
+
+    return Array.from(aliases).sort();
+  }
+
+  /**
+   * Resolve a token to a web-features ID
+   */
+  public resolve(query: string): FeatureResolution {
+    for (const key of this.getLookupKeys(query)) {
+      const lowerKey = key.toLowerCase();
+
+      if (this.ids.has(key)) {
+        return this.resolved(query, key, key, 'exact');
+      }
+
+      const compatId = this.compatKeys.get(key);
+      if (compatId) {
+        return this.resolved(query, compatId, key, 'compat-key');
+      }
+
+      const aliasId = this.aliases.get(lowerKey);
+      if (aliasId) {
+        return this.resolved(query, aliasId, key, 'alias');
+      }
+
+      const derived = this.derived.get(lowerKey);
+      if (derived && derived.size === 1) {
+        return this.resolved(query, Array.from(derived)[0], key, 'derived');
+      }
+
+      if (derived && derived.size > 1) {
+        return {
+          query,
+          status: 'ambiguous',
+          matchedKey: key,
+          candidates: Array.from(derived).sort()
+        };
+      }
+    }
+
+    return {
+      query,
+      status: 'unresolved',
+      candidates: []
+    };
+  }
+
+  private resolved(
+    query: string,
+    featureId: string,
+    matchedKey: string,
+    confidence: ResolutionConfidence
+  ): FeatureResolution {
+    return {
+      query,
+      status: 'resolved',
+      featureId,
+      matchedKey,
+      confidence,
+      candidates: [featureId]
+    };
+  }
+
+  private getLookupKeys(query: string): string[] {
+    const keys = [query, query.toLowerCase()];
+
+    // Remove vendor prefixes
+    const withoutPrefix = query.replace(/^-(?:webkit-|moz-|ms-|o-)/, '');
+    keys.push(withoutPrefix);
+
+    // Convert camelCase to kebab-case
+    keys.push(withoutPrefix.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase());
+
+    return Array.from(new Set(keys));
+  }
+
+  private addDerivedFromCompatKey(compat: string, id: string): void {
+    if (compat.startsWith('css.properties.')) {
+      this.addDerived(compat.slice('css.properties.'.length), id);
+    } else if (compat.startsWith('css.at-rules.') && !compat.slice('css.at-rules.'.length).includes('.')) {
+      this.addDerived(`@${compat.slice('css.at-rules.'.length)}`, id);
+    } else if (compat.startsWith('api.')) {
+      this.addDerived(compat.slice('api.'.length), id);
+    } else if (compat.startsWith('javascript.builtins.')) {
+      const path = compat.slice('javascript.builtins.'.length);
+      this.addDerived(path, id);
+
+      // Bare method names such as "includes" may belong to several builtins
+      const segments = path.split('.');
+      if (segments.length === 2) {
+        this.addDerived(segments[1], id);
+      }
+    }
+  }
+
+  private addDerived(alias: string, id: string): void {
+    const key = alias.toLowerCase();
+    let ids = this.derived.get(key);
+    if (!ids) {
+      ids = new Set();
+      this.derived.set(key, ids);
+    }
+    ids.add(id);
+  }
+}
@@ -0,0 +1,110 @@
+import type * as ts from 'typescript';
+import * as path from 'path';
+
+/**
+ * What a method call's receiver is, according to the TypeScript checker
+ */
+export type ReceiverKind = 'string' | 'array' | 'set' | 'other';
+
+/**
+ * Type information for a TypeScript project, built from its tsconfig.json with
+ * the project's own copy of the typescript package
+ */
+export class ProjectTypeChecker {
+  private ts: typeof ts;
+  private program: ts.Program;
+  private checker: ts.TypeChecker;
+
+  private constructor(typescript: typeof ts, program: ts.Program) {
+    this.ts = typescript;
+    this.program = program;
+    this.checker = program.getTypeChecker();
+  }
+
+  /**
+   * Create a checker for the project at projectPath
+   *
+   * @param tsconfig Path to the tsconfig file, relative to the project (default "tsconfig.json")
+   */
+  public static load(projectPath: string, tsconfig = 'tsconfig.json'): ProjectTypeChecker {
+    const typescript = ProjectTypeChecker.loadTypeScript(projectPath);
+    const configPath = path.resolve(projectPath, tsconfig);
+
+    const config = typescript.readConfigFile(configPath, typescript.sys.readFile);
+    if (config.error) {
+      const message = typescript.flattenDiagnosticMessageText(config.error.messageText, '\n');
+      throw new Error(`Failed to read TypeScript config "${configPath}": ${message}`);
+    }
+
+    const parsed = typescript.parseJsonConfigFileContent(config.config, typescript.sys, path.dirname(configPath));
+    const program = typescript.createProgram({ rootNames: parsed.fileNames, options: parsed.options });
+
+    return new ProjectTypeChecker(typescript, program);
+  }
+
+  private static loadTypeScript(projectPath: string): typeof ts {
+    try {
+      // Prefer the project's TypeScript so types resolve the way its build does
+      return require(require.resolve('typescript', { paths: [projectPath, __dirname] }));
+    } catch {
+      throw new Error('Type-checked analysis needs the "typescript" package; install it in the project');
+    }
+  }
+
+  /**
+   * Get the kind of the expression spanning [start, end) in a file, or
+   * undefined if the file isn't part of the project or the type is unknown
+   */
+  public getReceiverKind(filePath: string, start: number, end: number): ReceiverKind | undefined {
+    const sourceFile = this.program.getSourceFile(path.resolve(filePath));
+    if (!sourceFile) {
+      return undefined;
+    }
+
+    const node = this.findNode(sourceFile, sourceFile, start, end);
+    if (!node) {
+      return undefined;
+    }
+
+    const type = this.checker.getTypeAtLocation(node);
+    const kinds = new Set((type.isUnion() ? type.types : [type]).map(part => this.classify(part)));
+
+    return kinds.size === 1 ? [...kinds][0] : undefined;
+  }
+
+  private findNode(node: ts.Node, sourceFile: ts.SourceFile, start: number, end: number): ts.Node | undefined {
+    if (start < node.getStart(sourceFile) || end > node.getEnd()) {
+      return undefined;
+    }
+
+    if (node.getStart(sourceFile) === start && node.getEnd() === end && node.kind !== this.ts.SyntaxKind.SourceFile) {
+      return node;
+    }
+
+    return this.ts.forEachChild(node, child => this.findNode(child, sourceFile, start, end));
+  }
+
+  private classify(type: ts.Type): ReceiverKind | undefined {
+    const { TypeFlags } = this.ts;
+
+    if (type.flags & (TypeFlags.Any | TypeFlags.Unknown | TypeFlags.TypeParameter)) {
+      return undefined;
+    }
+
+    if (type.flags & TypeFlags.StringLike) {
+      return 'string';
+    }
+
+    if (this.checker.isArrayType(type) || this.checker.isTupleType(type)) {
+      return 'array';
+    }
+
+    const name = type.getSymbol()?.getName();
+    if (name === 'Set' || name === 'ReadonlySet') {
+      return 'set';
+    }
+
+    // Anything else, whether a platform type such as Map or one of the project's own
+    return 'other';
+  }
+}
\ No newline at end of file
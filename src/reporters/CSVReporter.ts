@@ -0,0 +1,36 @@
+import { FeatureDetails } from '../types';
+
+/**
+ * CSV reporter for spreadsheet-friendly feature listings
+ */
+export class CSVReporter {
+
+  public generateFeatureList(features: FeatureDetails[]): string {
+    const header = [
+      'id', 'name', 'baseline', 'baseline_low_date', 'baseline_high_date', 'groups',
+      'chrome', 'chrome_android', 'edge', 'firefox', 'firefox_android', 'safari', 'safari_ios'
+    ];
+
+    const rows = features.map(feature => [
+      feature.id,
+      feature.name,
+      feature.baseline,
+      feature.baselineLowDate || '',
+      feature.baselineHighDate || '',
+      feature.groups.join(' '),
+      feature.browsers.chrome || '',
+      feature.browsers.chrome_android || '',
+      feature.browsers.edge || '',
+      feature.browsers.firefox || '',
+      feature.browsers.firefox_android || '',
+      feature.browsers.safari || '',
+      feature.browsers.safari_ios || ''
+    ]);
+
+    return [header, ...rows].map(row => row.map(this.escape).join(',')).join('\n') + '\n';
+  }
+
+  private escape(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
\ No newline at end of file
@@ -1,7 +1,20 @@
 import chalk from 'chalk';
 import { table } from 'table';
 import boxen from 'boxen';
-import { AnalysisResult, FeatureUsage } from '../types';
+import {
+  AnalysisResult,
+  FeatureUsage,
+  BaselineException,
+  BrowserFailure,
+  ResolutionDiagnostic,
+  EngineFallback,
+  FeatureDetails,
+  FeatureResolution,
+  BrowserSupport,
+  DiscouragedInfo,
+  ForecastSummary
+} from '../types';
+import { BrowserMatrix } from '../core/BrowserMatrix';
 
 /**
  * Console reporter for displaying analysis results in terminal
@@ -27,6 +40,37 @@ export class ConsoleReporter {
       output += this.generateSection('⚠️  Baseline Warnings', result.warnings);
     }
     
+    // Findings re-evaluated at the --as-of date
+    if (result.forecast) {
+      output += this.generateForecastSection(result, result.forecast);
+    }
+    
+    // Failing features behind feature tests, when guarded usage is reported as info
+    const guarded = result.suggestions.filter(f => f.guard);
+    if (guarded.length > 0) {
+      output += this.generateSection('🛡️  Guarded by Feature Tests', guarded);
+    }
+    
+    // Findings waived by configured exceptions
+    if (result.suppressed.length > 0) {
+      output += this.generateSection('🙈 Suppressed by Exceptions', result.suppressed);
+    }
+    
+    // Expired exceptions
+    if (result.staleExceptions.length > 0) {
+      output += this.generateStaleExceptionsSection(result.staleExceptions);
+    }
+    
+    // Tokens that could not be mapped to a single web-features ID
+    if (result.diagnostics.length > 0) {
+      output += this.generateDiagnosticsSection(result.diagnostics);
+    }
+    
+    // Files the AST engine could not parse
+    if (result.engineFallbacks.length > 0) {
+      output += this.generateEngineFallbacksSection(result.engineFallbacks);
+    }
+    
     // Modernization Opportunities
     if (result.modernizationOpportunities.length > 0) {
       output += this.generateModernizationSection(result);
@@ -38,6 +82,86 @@ export class ConsoleReporter {
     return output;
   }
 
+  /**
+   * Format a single feature lookup from the dataset
+   */
+  public generateFeatureDetails(details: FeatureDetails, resolution: FeatureResolution, target: string): string {
+    let output = '\n' + chalk.bold.cyan(`🔎 ${details.name}`) + chalk.gray(` (${details.id})`) + '\n';
+    output += chalk.white(`   ${details.description}`) + '\n';
+    
+    if (resolution.matchedKey && resolution.matchedKey !== details.id) {
+      output += chalk.gray(`   Matched "${resolution.matchedKey}" (${resolution.confidence})`) + '\n';
+    }
+    
+    output += '\n';
+    output += `   ${this.getBaselineIcon(details.baseline)} Baseline: ${chalk.bold(details.baseline)}` + '\n';
+    if (details.baselineLowDate) {
+      output += '   📅 ' + this.formatBaselineDates(details) + '\n';
+    }
+    
+    const verdict = details.meetsCriteria ? chalk.green('passes') : chalk.red('fails');
+    output += `   🎯 Target ${target}: ${verdict}` + '\n';
+    if (details.failingBrowsers && details.failingBrowsers.length > 0) {
+      output += '   🚷 Fails: ' + chalk.red(this.formatFailingBrowsers(details.failingBrowsers)) + '\n';
+    }
+    
+    if (details.discouraged) {
+      output += '   🗑️  ' + this.formatDiscouraged(details.discouraged) + '\n';
+      if (details.discouraged.reason) {
+        output += chalk.gray(`      ${details.discouraged.reason}`) + '\n';
+      }
+      if (details.discouraged.alternatives.length > 0) {
+        output += '   ↔️  Alternatives: ' + chalk.green(details.discouraged.alternatives.join(', ')) + '\n';
+      }
+    }
+    
+    const supportRows = (Object.keys(details.browsers) as Array<keyof BrowserSupport>).map(browser => [
+      BrowserMatrix.getBrowserName(browser),
+      details.browsers[browser] || chalk.red('—')
+    ]);
+    output += '\n' + chalk.bold('🌐 Browser Support') + '\n' + table(supportRows);
+    
+    if (details.compatFeatures.length > 0) {
+      output += chalk.bold('🔑 Compat Keys') + '\n';
+      output += details.compatFeatures.map(key => chalk.gray(`   ${key}`)).join('\n') + '\n\n';
+    }
+    
+    if (details.aliases.length > 0) {
+      output += chalk.bold('🏷️  Aliases') + '\n';
+      output += chalk.gray(`   ${details.aliases.join(', ')}`) + '\n';
+    }
+    
+    return output;
+  }
+
+  /**
+   * Format a list of dataset features as a table
+   */
+  public generateFeatureList(features: FeatureDetails[]): string {
+    if (features.length === 0) {
+      return chalk.yellow('No features match the given filters') + '\n';
+    }
+    
+    const rows = [
+      ['ID', 'Name', 'Status', 'Baseline', 'Widely Available', 'Groups'].map(header => chalk.bold(header)),
+      ...features.map(feature => [
+        feature.id,
+        feature.name,
+        `${this.getBaselineIcon(feature.baseline)} ${feature.baseline}`,
+        feature.baselineLowDate || '—',
+        feature.baselineHighDate || '—',
+        feature.groups.join(', ')
+      ])
+    ];
+    
+    return table(rows, {
+      columns: {
+        1: { width: 30, wrapWord: true },
+        5: { width: 20, wrapWord: true }
+      }
+    }) + chalk.gray(`${features.length} features`) + '\n';
+  }
+
   private generateHeader(result: AnalysisResult): string {
     const title = '🚀 BaselineFlow Analysis Report';
     const subtitle = `Analyzed ${result.totalFiles} files • Found ${result.totalFeatures} web features`;
@@ -61,9 +185,15 @@ export class ConsoleReporter {
       ['📊 Compatibility Score', chalk[scoreColor](`${summary.compatibilityScore}%`)],
       ['❌ Errors', chalk.red(summary.errors.toString())],
       ['⚠️  Warnings', chalk.yellow(summary.warnings.toString())],
-      ['💡 Suggestions', chalk.blue(summary.suggestions.toString())]
+      ['💡 Suggestions', chalk.blue(summary.suggestions.toString())],
+      ['🙈 Suppressed', chalk.gray(summary.suppressed.toString())],
+      ['🛡️  Guarded', chalk.cyan(summary.guarded.toString())]
     ];
 
+    if (result.forecast) {
+      summaryData.push([`🔮 Resolved by ${result.forecast.asOf}`, chalk.green(result.forecast.resolved.toString())]);
+    }
+
     const summaryTable = table(summaryData, {
       border: {
         topBody: '─',
@@ -105,6 +235,94 @@ export class ConsoleReporter {
     return output;
   }
 
+  private generateForecastSection(result: AnalysisResult, forecast: ForecastSummary): string {
+    let output = chalk.bold(`🔮 Forecast as of ${forecast.asOf}`) + '\n\n';
+    
+    const total = forecast.resolved + forecast.remaining;
+    output += chalk.gray(`   ${forecast.resolved} of ${total} failing findings would meet the target by then`) + '\n\n';
+    
+    const findings = [...result.violations, ...result.warnings];
+    const resolved = this.groupByFeatureId(findings.filter(f => f.forecast?.meetsCriteria));
+    const remaining = this.groupByFeatureId(findings.filter(f => f.forecast && !f.forecast.meetsCriteria));
+    
+    for (const [featureId, features] of resolved) {
+      output += `   ✅ ${chalk.bold(featureId)}${chalk.gray(` (${features.length}×)`)} ${this.formatWidelyAvailable(features[0])}` + '\n';
+    }
+    
+    for (const [featureId, features] of remaining) {
+      output += `   ⏳ ${chalk.bold(featureId)}${chalk.gray(` (${features.length}×)`)} ${this.formatWidelyAvailable(features[0])}` + '\n';
+    }
+    
+    return output + '\n';
+  }
+
+  private groupByFeatureId(features: FeatureUsage[]): Map<string, FeatureUsage[]> {
+    const grouped = new Map<string, FeatureUsage[]>();
+    
+    for (const feature of features) {
+      let group = grouped.get(feature.featureId);
+      if (!group) {
+        group = [];
+        grouped.set(feature.featureId, group);
+      }
+      group.push(feature);
+    }
+    
+    return grouped;
+  }
+
+  private formatWidelyAvailable(feature: FeatureUsage): string {
+    const date = feature.forecast?.widelyAvailableDate;
+    return date
+      ? chalk.gray(`widely available ${date}`)
+      : chalk.yellow('not yet Baseline, no expected date');
+  }
+
+  private generateStaleExceptionsSection(exceptions: BaselineException[]): string {
+    let output = chalk.bold('⌛ Stale Exceptions') + '\n\n';
+    
+    for (const exception of exceptions) {
+      const scope = exception.files ? ` (${[exception.files].flat().join(', ')})` : '';
+      output += `   ⌛ ${chalk.bold(exception.feature)}${chalk.gray(scope)} ${chalk.yellow(`expired ${exception.expires}`)}` + '\n';
+      output += chalk.gray(`     ${exception.reason}`) + '\n';
+    }
+    
+    return output + '\n';
+  }
+
+  private generateDiagnosticsSection(diagnostics: ResolutionDiagnostic[]): string {
+    let output = chalk.bold('❓ Unresolved Feature Lookups') + '\n\n';
+    
+    const ambiguous = diagnostics.filter(d => d.status === 'ambiguous');
+    const unresolved = diagnostics.filter(d => d.status === 'unresolved');
+    
+    for (const diagnostic of ambiguous) {
+      const first = diagnostic.locations[0];
+      output += `   ❓ ${chalk.bold(diagnostic.query)} ${chalk.gray(`${this.getRelativePath(first.file)}:${first.line}:${first.column}`)}`;
+      output += chalk.gray(` (${diagnostic.locations.length}×)`) + '\n';
+      output += chalk.yellow(`     Ambiguous: ${diagnostic.candidates.join(', ')}`) + '\n';
+    }
+    
+    if (unresolved.length > 0) {
+      const tokens = unresolved.map(d => `${d.query} (${d.locations.length}×)`);
+      output += chalk.gray(`   Not in web-features: ${tokens.slice(0, 20).join(', ')}`);
+      output += chalk.gray(unresolved.length > 20 ? ` and ${unresolved.length - 20} more` : '') + '\n';
+    }
+    
+    return output + '\n';
+  }
+
+  private generateEngineFallbacksSection(fallbacks: EngineFallback[]): string {
+    let output = chalk.bold('🧩 Analyzed with Regex Fallback') + '\n\n';
+    
+    for (const fallback of fallbacks) {
+      output += `   🧩 ${chalk.bold(this.getRelativePath(fallback.file))}` + '\n';
+      output += chalk.gray(`     ${fallback.reason}`) + '\n';
+    }
+    
+    return output + '\n';
+  }
+
   private generateModernizationSection(result: AnalysisResult): string {
     let output = chalk.bold('🔄 Modernization Opportunities') + '\n\n';
     
@@ -142,6 +360,10 @@ export class ConsoleReporter {
       recommendations.push('📈 Improve compatibility score by adopting baseline features');
     }
     
+    if (result.staleExceptions.length > 0) {
+      recommendations.push('⌛ Review or remove expired exceptions in your configuration');
+    }
+    
     if (result.modernizationOpportunities.length > 0) {
       recommendations.push('🚀 Explore modernization opportunities to improve code quality');
     }
@@ -189,6 +411,27 @@ export class ConsoleReporter {
       output += '\n     ↔️  Alternative: ' + chalk.green(feature.alternative);
     }
     
+    if (feature.exception) {
+      const expiry = feature.exception.expires ? chalk.gray(` (until ${feature.exception.expires})`) : '';
+      output += '\n     📝 Exception: ' + chalk.italic(feature.exception.reason) + expiry;
+    }
+    
+    if (feature.discouraged) {
+      output += '\n     🗑️  ' + this.formatDiscouraged(feature.discouraged);
+    }
+    
+    if (feature.guard) {
+      output += '\n     🛡️  Guarded by ' + chalk.cyan(feature.guard);
+    }
+    
+    if (feature.failingBrowsers && feature.failingBrowsers.length > 0) {
+      output += '\n     🚷 Fails: ' + chalk.red(this.formatFailingBrowsers(feature.failingBrowsers));
+    }
+    
+    if (feature.baselineLowDate && feature.severity !== 'info') {
+      output += '\n     📅 ' + this.formatBaselineDates(feature);
+    }
+    
     // Browser support
     if (feature.browsers && Object.keys(feature.browsers).length > 0) {
       const browserSupport = this.formatBrowserSupport(feature.browsers);
@@ -198,6 +441,37 @@ export class ConsoleReporter {
     return output;
   }
 
+  private formatDiscouraged(discouraged: DiscouragedInfo): string {
+    let notice = chalk.yellow('Discouraged');
+    
+    if (discouraged.removalDate) {
+      notice += chalk.yellow(`, removal planned ${discouraged.removalDate}`);
+    }
+    
+    if (discouraged.accordingTo.length > 0) {
+      notice += chalk.gray(` (${discouraged.accordingTo.join(', ')})`);
+    }
+    
+    return notice;
+  }
+
+  private formatBaselineDates(feature: Pick<FeatureUsage, 'baselineLowDate' | 'baselineHighDate'>): string {
+    let dates = `Baseline since ${feature.baselineLowDate}`;
+    
+    if (feature.baselineHighDate) {
+      dates += ` • widely available since ${feature.baselineHighDate}`;
+    }
+    
+    return chalk.gray(dates);
+  }
+
+  private formatFailingBrowsers(failures: BrowserFailure[]): string {
+    return failures.map(failure => {
+      const name = `${BrowserMatrix.getBrowserName(failure.browser)} ${failure.minimumVersion}`;
+      return failure.supportedSince ? `${name} (needs ${failure.supportedSince})` : `${name} (unsupported)`;
+    }).join(' • ');
+  }
+
   private formatBrowserSupport(browsers: any): string {
     const supportInfo: string[] = [];
     
@@ -213,10 +487,12 @@ export class ConsoleReporter {
     const grouped = new Map<string, FeatureUsage[]>();
     
     for (const feature of features) {
-      if (!grouped.has(feature.file)) {
-        grouped.set(feature.file, []);
+      let group = grouped.get(feature.file);
+      if (!group) {
+        group = [];
+        grouped.set(feature.file, group);
       }
-      grouped.get(feature.file)!.push(feature);
+      group.push(feature);
     }
     
     return grouped;
@@ -1,4 +1,4 @@
-import { AnalysisResult } from '../types';
+import { AnalysisResult, FeatureDetails, DataSource } from '../types';
 
 /**
  * JSON reporter for machine-readable analysis results
@@ -11,7 +11,8 @@ export class JSONReporter {
       meta: {
         version: '1.0.0',
         timestamp: new Date().toISOString(),
-        tool: 'BaselineFlow'
+        tool: 'BaselineFlow',
+        data: result.data
       },
       summary: {
         totalFiles: result.totalFiles,
@@ -20,12 +21,27 @@ export class JSONReporter {
         counts: {
           errors: result.summary.errors,
           warnings: result.summary.warnings,
-          suggestions: result.summary.suggestions
+          suggestions: result.summary.suggestions,
+          suppressed: result.summary.suppressed,
+          guarded: result.summary.guarded
         }
       },
       violations: result.violations.map(this.formatFeature),
       warnings: result.warnings.map(this.formatFeature),
       suggestions: result.suggestions.map(this.formatFeature),
+      suppressed: result.suppressed.map(this.formatFeature),
+      staleExceptions: result.staleExceptions,
+      diagnostics: result.diagnostics,
+      engineFallbacks: result.engineFallbacks,
+      forecast: result.forecast && {
+        ...result.forecast,
+        resolvedFindings: [...result.violations, ...result.warnings]
+          .filter(feature => feature.forecast?.meetsCriteria)
+          .map(this.formatFeature),
+        remainingFindings: [...result.violations, ...result.warnings]
+          .filter(feature => feature.forecast && !feature.forecast.meetsCriteria)
+          .map(this.formatFeature)
+      },
       modernizationOpportunities: result.modernizationOpportunities.map(opportunity => ({
         category: opportunity.category,
         oldFeature: opportunity.oldFeature,
@@ -42,10 +58,28 @@ export class JSONReporter {
     return JSON.stringify(report, null, 2);
   }
 
+  /**
+   * Serialize a list of dataset features
+   */
+  public generateFeatureList(features: FeatureDetails[], data?: DataSource): string {
+    return JSON.stringify({
+      meta: {
+        version: '1.0.0',
+        timestamp: new Date().toISOString(),
+        tool: 'BaselineFlow',
+        data
+      },
+      count: features.length,
+      features
+    }, null, 2);
+  }
+
   private formatFeature(feature: any) {
     return {
       feature: feature.feature,
       featureId: feature.featureId,
+      matchedKey: feature.matchedKey,
+      confidence: feature.confidence,
       location: {
         file: feature.file,
         line: feature.line,
@@ -53,11 +87,18 @@ export class JSONReporter {
       },
       context: feature.context,
       baseline: feature.baseline,
+      baselineLowDate: feature.baselineLowDate,
+      baselineHighDate: feature.baselineHighDate,
       severity: feature.severity,
       browsers: feature.browsers,
+      failingBrowsers: feature.failingBrowsers,
       suggestion: feature.suggestion,
       polyfill: feature.polyfill,
-      alternative: feature.alternative
+      alternative: feature.alternative,
+      exception: feature.exception,
+      forecast: feature.forecast,
+      discouraged: feature.discouraged,
+      guard: feature.guard
     };
   }
 
@@ -2,30 +2,123 @@
  * BaselineFlow Types
  */
 
+export type BaselineTarget =
+  | 'widely-available'
+  | 'newly-available'
+  | 'limited'
+  | 'browsers'
+  | `baseline-${number}`;
+
+export type Framework = 'react' | 'vue' | 'angular' | 'svelte' | 'auto';
+
 export interface BaselineConfig {
-  target: 'widely-available' | 'newly-available' | 'limited';
-  browsers: string[];
-  exceptions: string[];
+  target: BaselineTarget;
+  /** Browser names, "browser >= version" entries or a browserslist-style query */
+  browsers: string | string[];
+  exceptions: BaselineException[];
   ignoreFiles: string[];
-  framework?: 'react' | 'vue' | 'angular' | 'svelte' | 'auto';
+  framework?: Framework;
   generateFixes: boolean;
   reportFormat: 'console' | 'json' | 'html' | 'junit';
   outputFile?: string;
+  /** Path to a web-features snapshot file to use instead of the bundled data */
+  dataFile?: string;
+  /** Forecast date (YYYY-MM-DD) to re-evaluate failing findings against */
+  asOf?: string;
+  /** Severity of features web-features marks as discouraged (default "warning") */
+  discouragedSeverity?: 'error' | 'warning' | 'info';
+  /** Severity of failing features used behind a feature test such as @supports (default "info") */
+  guardedSeverity?: 'error' | 'warning' | 'info';
+  /** Analyzer tokens (CSS properties, at-rules, functions, ...) mapped to web-features IDs */
+  aliases?: Record<string, string>;
+  /** Project-specific calls that indicate use of a web feature */
+  detectors?: CustomDetector[];
+  /** Tags whose template literals are analyzed as CSS, matched on the root identifier (styled.div, css, ...) */
+  cssTemplateTags?: string[];
+  /** Use the TypeScript checker to find method receivers: true for tsconfig.json, or a tsconfig path */
+  typeCheck?: boolean | string;
+  /** JavaScript analysis engine (default "ast"); "ast" falls back to "regex" per file on parse errors */
+  engine?: AnalysisEngine;
+}
+
+export type AnalysisEngine = 'ast' | 'regex';
+
+export interface CustomDetector {
+  /** Function name such as "ourFetch", or member path such as "api.copyText" */
+  call: string;
+  /** web-features ID the call indicates */
+  feature: string;
+}
+
+export interface DataSource {
+  type: 'bundled' | 'snapshot';
+  /** web-features package version the data came from */
+  version: string;
+  /** Date of the newest browser release in the data */
+  date?: string;
+  file?: string;
+}
+
+export interface BaselineException {
+  /** web-features ID or alias of the feature to allow */
+  feature: string;
+  /** Glob pattern(s), relative to the project root, the exception is limited to */
+  files?: string | string[];
+  /** Justification for allowing the feature */
+  reason: string;
+  /** ISO date (YYYY-MM-DD) after which the exception no longer applies */
+  expires?: string;
 }
 
 export interface FeatureUsage {
+  /** Raw token detected by the analyzer */
   feature: string;
+  /** Resolved web-features ID */
   featureId: string;
+  matchedKey?: string;
+  confidence?: ResolutionConfidence;
   file: string;
   line: number;
   column: number;
   context: string;
   baseline: 'widely-available' | 'newly-available' | 'limited' | null;
   browsers: BrowserSupport;
+  failingBrowsers?: BrowserFailure[];
+  baselineLowDate?: string;
+  baselineHighDate?: string;
   severity: 'error' | 'warning' | 'info';
   suggestion?: string;
   polyfill?: string;
   alternative?: string;
+  exception?: BaselineException;
+  forecast?: FeatureForecast;
+  discouraged?: DiscouragedInfo;
+  /** Feature test guarding the usage, such as the enclosing @supports condition */
+  guard?: string;
+}
+
+export interface DiscouragedInfo {
+  reason?: string;
+  /** web-features IDs of features to use instead */
+  alternatives: string[];
+  /** Links to the notices discouraging the feature */
+  accordingTo: string[];
+  removalDate?: string;
+}
+
+export interface FeatureForecast {
+  /** Baseline status the feature will have on the forecast date */
+  baseline: 'widely-available' | 'newly-available' | 'limited';
+  meetsCriteria: boolean;
+  /** Date the feature became or is expected to become widely available */
+  widelyAvailableDate?: string;
+}
+
+export interface ForecastSummary {
+  asOf: string;
+  /** Failing findings that meet the target by the forecast date */
+  resolved: number;
+  remaining: number;
 }
 
 export interface BrowserSupport {
@@ -38,16 +131,88 @@ export interface BrowserSupport {
   safari_ios?: string;
 }
 
+export type ResolutionConfidence = 'exact' | 'compat-key' | 'alias' | 'derived';
+
+export interface FeatureResolution {
+  query: string;
+  status: 'resolved' | 'ambiguous' | 'unresolved';
+  featureId?: string;
+  /** Index key that matched the query */
+  matchedKey?: string;
+  confidence?: ResolutionConfidence;
+  /** Matching web-features IDs (several when ambiguous) */
+  candidates: string[];
+}
+
+export interface ResolutionDiagnostic {
+  query: string;
+  status: 'ambiguous' | 'unresolved';
+  candidates: string[];
+  locations: Array<{
+    file: string;
+    line: number;
+    column: number;
+  }>;
+}
+
+export interface FeatureDetails {
+  id: string;
+  name: string;
+  description: string;
+  groups: string[];
+  baseline: 'widely-available' | 'newly-available' | 'limited';
+  baselineLowDate?: string;
+  baselineHighDate?: string;
+  browsers: BrowserSupport;
+  compatFeatures: string[];
+  aliases: string[];
+  /** Whether the feature passes the configured target */
+  meetsCriteria: boolean;
+  failingBrowsers?: BrowserFailure[];
+  discouraged?: DiscouragedInfo;
+}
+
+export interface FeatureFilter {
+  status?: Array<'widely-available' | 'newly-available' | 'limited'>;
+  /** Earliest date (YYYY[-MM[-DD]]) the feature reached its current status */
+  since?: string;
+  /** Latest date (YYYY[-MM[-DD]]) the feature reached its current status */
+  until?: string;
+  /** Group ID, matched against the feature's groups and their ancestors */
+  group?: string;
+  /** Browsers query the feature must be supported in */
+  supportedIn?: string | string[];
+  /** Browsers query the feature must lack support in (any of them) */
+  unsupportedIn?: string | string[];
+}
+
+export interface BrowserFailure {
+  browser: keyof BrowserSupport;
+  /** Minimum version required by the configured browsers */
+  minimumVersion: string;
+  /** Version that added support, if any */
+  supportedSince?: string;
+}
+
 export interface AnalysisResult {
   totalFiles: number;
   totalFeatures: number;
   violations: FeatureUsage[];
   warnings: FeatureUsage[];
   suggestions: FeatureUsage[];
+  suppressed: FeatureUsage[];
+  staleExceptions: BaselineException[];
+  diagnostics: ResolutionDiagnostic[];
+  /** Files the AST engine could not parse and analyzed with regex matching instead */
+  engineFallbacks: EngineFallback[];
+  data: DataSource;
+  forecast?: ForecastSummary;
   summary: {
     errors: number;
     warnings: number;
     suggestions: number;
+    suppressed: number;
+    guarded: number;
     compatibilityScore: number;
   };
   modernizationOpportunities: ModernizationSuggestion[];
@@ -66,9 +231,21 @@ export interface ModernizationSuggestion {
 
 export interface FileAnalysis {
   file: string;
-  type: 'css' | 'javascript' | 'html' | 'typescript' | 'jsx' | 'tsx';
+  type: 'css' | 'javascript' | 'html' | 'typescript' | 'jsx' | 'tsx' | 'vue' | 'svelte' | 'astro';
   features: FeatureUsage[];
+  diagnostics?: ResolutionDiagnostic[];
   framework?: string;
+  /** External files the analyzed file references, such as an Angular templateUrl */
+  resources?: string[];
+  /** Engine that produced the features of a JavaScript or TypeScript file */
+  engine?: AnalysisEngine;
+  /** Parse error that made the AST engine fall back to regex matching */
+  fallbackReason?: string;
+}
+
+export interface EngineFallback {
+  file: string;
+  reason: string;
 }
 
 export interface ReportOptions {
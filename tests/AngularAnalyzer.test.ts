@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AngularAnalyzer } from '../src/analyzers/AngularAnalyzer';
+import { HTMLAnalyzer } from '../src/analyzers/HTMLAnalyzer';
+import { CSSAnalyzer } from '../src/analyzers/CSSAnalyzer';
+import { SimpleJavaScriptAnalyzer } from '../src/analyzers/SimpleJavaScriptAnalyzer';
+import { Analyzer } from '../src/core/Analyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { BaselineConfig } from '../src/types';
+
+describe('AngularAnalyzer', () => {
+  let analyzer: AngularAnalyzer;
+  let config: BaselineConfig;
+
+  beforeEach(() => {
+    config = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console'
+    };
+    const checker = new BaselineChecker(config);
+    const cssAnalyzer = new CSSAnalyzer(checker);
+    const jsAnalyzer = new SimpleJavaScriptAnalyzer(checker);
+    analyzer = new AngularAnalyzer(new HTMLAnalyzer(checker, cssAnalyzer, jsAnalyzer), cssAnalyzer);
+  });
+
+  it('should analyze inline templates and styles at their position in the TS file', async () => {
+    const component = [
+      "import { Component } from '@angular/core';",
+      '',
+      '@Component({',
+      "  selector: 'app-card',",
+      '  template: `',
+      '    <search>{{ title }}</search>',
+      '  `,',
+      "  styles: [':host { display: block; }', '.card { position: sticky; }']",
+      '})',
+      'export class CardComponent {}'
+    ].join('\n');
+
+    const result = await analyzer.analyze(component, 'card.component.ts');
+    const find = (id: string) => result.features.find(f => f.featureId === id);
+
+    expect(result.framework).toBe('angular');
+    expect(find('search')?.line).toBe(6);
+    expect(find('search')?.column).toBe(5);
+    expect(find('sticky-positioning')?.line).toBe(8);
+    expect(result.diagnostics?.find(d => d.query === ':host')).toBeUndefined();
+  });
+
+  it('should return external templates and styles as resources', async () => {
+    const component = [
+      '@Component({',
+      "  templateUrl: './card.component.html',",
+      "  styleUrls: ['./card.component.scss']",
+      '})',
+      'export class CardComponent {}'
+    ].join('\n');
+
+    const result = await analyzer.analyze(component, path.join('src', 'card.component.ts'));
+
+    expect(result.features).toHaveLength(0);
+    expect(result.resources).toEqual([
+      path.resolve('src', 'card.component.html'),
+      path.resolve('src', 'card.component.scss')
+    ]);
+  });
+
+  it('should ignore Angular style syntax in external stylesheets', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineflow-'));
+    fs.writeFileSync(path.join(dir, 'card.component.ts'), "@Component({ styleUrls: ['./card.component.scss'] })\nexport class CardComponent {}");
+    fs.writeFileSync(path.join(dir, 'card.component.scss'), ':host { display: block; }\n::ng-deep .title { color: red; }');
+
+    try {
+      const result = await new Analyzer({ ...config, framework: 'angular' }).analyzeProject(dir);
+      const queries = result.diagnostics.map(d => d.query);
+
+      expect(queries).not.toContain(':host');
+      expect(queries).not.toContain('::ng-deep');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
\ No newline at end of file
@@ -1,5 +1,10 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { BaselineChecker } from '../src/core/BaselineChecker';
-import { BaselineConfig } from '../src/types';
+import { FeatureDataset } from '../src/core/FeatureDataset';
+import { CURATED_ALIASES } from '../src/core/FeatureResolver';
+import { BaselineConfig, BaselineException } from '../src/types';
 
 describe('BaselineChecker', () => {
   let checker: BaselineChecker;
@@ -45,7 +50,7 @@ describe('BaselineChecker', () => {
     it('should handle CSS property variations', () => {
       // Test various CSS property formats
       const tests = [
-        'display',
+        'aspect-ratio',
         'css-grid',
         'grid',
         'flexbox'
@@ -65,10 +70,28 @@ describe('BaselineChecker', () => {
       expect(result.meetsCriteria).toBe(true); // Should pass for newly-available target
     });
 
+    it('should pass features that became Baseline by a year target', () => {
+      const yearChecker = new BaselineChecker({ ...config, target: 'baseline-2020' });
+
+      const grid = yearChecker.checkFeature('grid');
+      expect(grid.baselineLowDate).toBe('2020-07-28');
+      expect(grid.meetsCriteria).toBe(true);
+
+      const containerQueries = yearChecker.checkFeature('container-queries');
+      expect(containerQueries.meetsCriteria).toBe(false);
+      expect(containerQueries.suggestion).toContain('Baseline 2020');
+    });
+
+    it('should validate Baseline targets', () => {
+      expect(BaselineChecker.isValidTarget('baseline-2023')).toBe(true);
+      expect(BaselineChecker.isValidTarget('widely-available')).toBe(true);
+      expect(BaselineChecker.isValidTarget('baseline-next')).toBe(false);
+    });
+
     it('should handle exceptions correctly', () => {
       const configWithExceptions = { 
         ...config, 
-        exceptions: ['container-queries']
+        exceptions: [{ feature: 'container-queries', reason: 'Media query fallback' }]
       };
       const newChecker = new BaselineChecker(configWithExceptions);
       
@@ -78,6 +101,305 @@ describe('BaselineChecker', () => {
     });
   });
 
+  describe('resolveFeature', () => {
+    it('should resolve every curated alias against the bundled data', () => {
+      const unresolved = Object.keys(CURATED_ALIASES).filter(alias => checker.resolveFeature(alias).status !== 'resolved');
+
+      expect(unresolved).toEqual([]);
+      expect(checker.resolveFeature('=>')).toMatchObject({ featureId: 'functions', confidence: 'alias' });
+    });
+
+    it('should resolve IDs, compat keys and aliases with a confidence', () => {
+      expect(checker.resolveFeature('grid')).toMatchObject({ status: 'resolved', featureId: 'grid', confidence: 'exact' });
+      expect(checker.resolveFeature('css.properties.display.grid')).toMatchObject({ featureId: 'grid', confidence: 'compat-key' });
+      expect(checker.resolveFeature('css-grid')).toMatchObject({ featureId: 'grid', matchedKey: 'css-grid', confidence: 'alias' });
+      expect(checker.resolveFeature('@container')).toMatchObject({ featureId: 'container-queries', confidence: 'derived' });
+    });
+
+    it('should not guess from partial matches', () => {
+      expect(checker.resolveFeature('gap').status).toBe('unresolved');
+      expect(checker.resolveFeature('start').status).toBe('unresolved');
+    });
+
+    it('should report ambiguous lookups with their candidates', () => {
+      const resolution = checker.resolveFeature('includes');
+
+      expect(resolution.status).toBe('ambiguous');
+      expect(resolution.featureId).toBeUndefined();
+      expect(resolution.candidates).toEqual(['array-includes', 'string-includes']);
+      expect(checker.checkFeature('includes').baseline).toBe(null);
+    });
+  });
+
+  describe('describeFeature', () => {
+    it('should describe a feature with its dates, compat keys and aliases', () => {
+      const details = checker.describeFeature('css-grid');
+
+      expect(details?.id).toBe('grid');
+      expect(details?.name).toBe('Grid');
+      expect(details?.baselineLowDate).toBe('2020-07-28');
+      expect(details?.compatFeatures).toContain('css.properties.display.grid');
+      expect(details?.aliases).toContain('css-grid');
+      expect(details?.meetsCriteria).toBe(true);
+    });
+
+    it('should return null for unresolved queries', () => {
+      expect(checker.describeFeature('includes')).toBeNull();
+    });
+  });
+
+  describe('listFeatures', () => {
+    it('should filter by status, group and date range', () => {
+      const features = checker.listFeatures({
+        status: ['widely-available'],
+        group: 'layout',
+        since: '2023',
+        until: '2023'
+      });
+
+      expect(features.map(f => f.id)).toContain('grid');
+      features.forEach(feature => {
+        expect(feature.baseline).toBe('widely-available');
+        expect(feature.baselineHighDate?.startsWith('2023')).toBe(true);
+      });
+    });
+
+    it('should filter by browser support', () => {
+      const features = checker.listFeatures({ status: ['limited'], unsupportedIn: 'safari' });
+
+      expect(features.length).toBeGreaterThan(0);
+      features.forEach(feature => expect(feature.browsers.safari).toBeUndefined());
+    });
+  });
+
+  describe('browsers target', () => {
+    it('should report which configured browsers fail', () => {
+      const browserChecker = new BaselineChecker({
+        ...config,
+        target: 'browsers',
+        browsers: ['chrome >= 100', 'safari_ios >= 15.4']
+      });
+
+      const result = browserChecker.checkFeature('container-queries');
+      expect(result.meetsCriteria).toBe(false);
+      expect(result.failingBrowsers?.map(f => f.browser)).toEqual(['chrome', 'safari_ios']);
+      expect(result.failingBrowsers?.[0].supportedSince).toBe('105');
+
+      expect(browserChecker.checkFeature('grid').meetsCriteria).toBe(true);
+    });
+
+    it('should resolve browserslist-style queries', () => {
+      const browserChecker = new BaselineChecker({
+        ...config,
+        target: 'browsers',
+        browsers: 'ios_saf 15.4, last 1 chrome versions'
+      });
+
+      const result = browserChecker.checkFeature('grid');
+      expect(result.failingBrowsers).toEqual([]);
+    });
+
+    it('should reject unknown browsers', () => {
+      expect(() => new BaselineChecker({ ...config, target: 'browsers', browsers: ['netscape >= 4'] }))
+        .toThrow('Unknown browser');
+    });
+  });
+
+  describe('exceptions', () => {
+    it('should find an exception by feature ID or alias', () => {
+      const newChecker = new BaselineChecker({
+        ...config,
+        exceptions: [{ feature: 'grid', reason: 'Fallback layout in place' }]
+      });
+
+      expect(newChecker.findException('grid')?.reason).toBe('Fallback layout in place');
+      expect(newChecker.findException('css.properties.display.grid')).toBeDefined();
+      expect(newChecker.findException('container-queries')).toBeUndefined();
+    });
+
+    it('should limit exceptions to their file scope', () => {
+      const newChecker = new BaselineChecker({
+        ...config,
+        exceptions: [{ feature: 'container-queries', files: 'src/legacy/**', reason: 'Legacy widgets' }]
+      });
+
+      expect(newChecker.findException('container-queries', 'src/legacy/card.css')).toBeDefined();
+      expect(newChecker.findException('container-queries', 'src/app/card.css')).toBeUndefined();
+    });
+
+    it('should report expired exceptions as stale', () => {
+      const newChecker = new BaselineChecker({
+        ...config,
+        exceptions: [
+          { feature: 'container-queries', reason: 'Until the redesign', expires: '2000-01-01' },
+          { feature: 'grid', reason: 'No expiry' }
+        ]
+      });
+
+      expect(newChecker.findException('container-queries')).toBeUndefined();
+      expect(newChecker.getStaleExceptions().map(e => e.feature)).toEqual(['container-queries']);
+    });
+
+    it('should reject exceptions without a reason', () => {
+      expect(() => new BaselineChecker({
+        ...config,
+        exceptions: [{ feature: 'container-queries', reason: '' }]
+      })).toThrow('exception for "container-queries" needs a "reason"');
+    });
+
+    it('should reject the old list of feature names', () => {
+      expect(() => new BaselineChecker({
+        ...config,
+        exceptions: ['container-queries'] as unknown as BaselineException[]
+      })).toThrow('Invalid configuration');
+    });
+  });
+
+  describe('forecastFeature', () => {
+    it('should apply the 30-month rule to newly available features', () => {
+      // Baseline low on 2023-09-15
+      const before = checker.forecastFeature('subgrid', '2026-03-14');
+      const after = checker.forecastFeature('subgrid', '2026-03-15');
+
+      expect(before).toMatchObject({ baseline: 'newly-available', meetsCriteria: false, widelyAvailableDate: '2026-03-15' });
+      expect(after).toMatchObject({ baseline: 'widely-available', meetsCriteria: true });
+    });
+
+    it('should treat features as not yet Baseline before their low date', () => {
+      const forecast = checker.forecastFeature('subgrid', '2023-01-01');
+
+      expect(forecast?.baseline).toBe('limited');
+      expect(forecast?.meetsCriteria).toBe(false);
+    });
+
+    it('should not project features without Baseline dates', () => {
+      const limited = checker.listFeatures({ status: ['limited'] })[0];
+      const forecast = checker.forecastFeature(limited.id, '2099-01-01');
+
+      expect(forecast?.meetsCriteria).toBe(false);
+      expect(forecast?.widelyAvailableDate).toBeUndefined();
+    });
+  });
+
+  describe('data snapshots', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineflow-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should check features against a snapshot file', () => {
+      const snapshot = JSON.parse(FeatureDataset.bundled().toSnapshot());
+      snapshot.meta.version = '0.0.1-test';
+      snapshot.features['container-queries'].status.baseline = 'high';
+      const dataFile = path.join(dir, 'snapshot.json');
+      fs.writeFileSync(dataFile, JSON.stringify(snapshot));
+
+      const pinned = new BaselineChecker({ ...config, dataFile });
+
+      expect(pinned.checkFeature('container-queries').meetsCriteria).toBe(true);
+      expect(pinned.getDataSource()).toMatchObject({ type: 'snapshot', version: '0.0.1-test', file: dataFile });
+    });
+
+    it('should not describe entries without a status', () => {
+      const snapshot = JSON.parse(FeatureDataset.bundled().toSnapshot());
+      snapshot.features['old-grid'] = { kind: 'moved', redirect_target: 'grid' };
+      snapshot.features['old-layout'] = { kind: 'split', redirect_targets: ['grid', 'flexbox'] };
+      const dataFile = path.join(dir, 'snapshot.json');
+      fs.writeFileSync(dataFile, JSON.stringify(snapshot));
+
+      const pinned = new BaselineChecker({ ...config, dataFile });
+
+      expect(pinned.describeFeature('old-grid')).toBeNull();
+      expect(pinned.describeFeature('old-layout')).toBeNull();
+      expect(pinned.describeFeature('grid')?.id).toBe('grid');
+      expect(pinned.listFeatures().map(f => f.id)).not.toContain('old-grid');
+      expect(pinned.listFeatures({ group: 'layout' }).map(f => f.id)).toContain('grid');
+    });
+
+    it('should describe the bundled data by default', () => {
+      const source = checker.getDataSource();
+
+      expect(source.type).toBe('bundled');
+      expect(source.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it('should reject files that are not web-features data', () => {
+      const dataFile = path.join(dir, 'invalid.json');
+      fs.writeFileSync(dataFile, JSON.stringify({ features: {} }));
+
+      expect(() => new BaselineChecker({ ...config, dataFile })).toThrow('Invalid web-features data file');
+      expect(() => new BaselineChecker({ ...config, dataFile: path.join(dir, 'missing.json') })).toThrow('Failed to read');
+    });
+  });
+
+  describe('custom aliases and detectors', () => {
+    it('should resolve configured aliases and detector calls', () => {
+      const custom = new BaselineChecker({
+        ...config,
+        aliases: { '-acme-grid': 'grid', '-acme-subgrid': 'css.properties.grid-template-columns.subgrid' },
+        detectors: [{ call: 'ourFetch', feature: 'fetch' }]
+      });
+
+      expect(custom.checkFeature('-acme-grid').featureId).toBe('grid');
+      expect(custom.checkFeature('-acme-subgrid').featureId).toBe('subgrid');
+      expect(custom.checkFeature('ourFetch').featureId).toBe('fetch');
+      expect(custom.getCustomDetectors()).toEqual([{ call: 'ourFetch', feature: 'fetch' }]);
+    });
+
+    it('should reject unknown web-features IDs', () => {
+      const create = () => new BaselineChecker({
+        ...config,
+        aliases: { '-acme-grid': 'css-grid' },
+        detectors: [{ call: 'useClipboard', feature: 'not-a-feature' }]
+      });
+
+      expect(create).toThrow('alias "-acme-grid" maps to unknown web-features ID "css-grid" (did you mean "grid"?)');
+      expect(create).toThrow('detector "useClipboard" maps to unknown web-features ID "not-a-feature"');
+    });
+  });
+
+  describe('discouraged features', () => {
+    let dataFile: string;
+
+    beforeEach(() => {
+      const snapshot = JSON.parse(FeatureDataset.bundled().toSnapshot());
+      snapshot.features['flexbox'].discouraged = {
+        according_to: ['https://example.com/notice'],
+        alternatives: ['grid', 'not-a-feature'],
+        reason: 'Test notice'
+      };
+      dataFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'baselineflow-')), 'snapshot.json');
+      fs.writeFileSync(dataFile, JSON.stringify(snapshot));
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(dataFile), { recursive: true, force: true });
+    });
+
+    it('should report the discouragement and dataset alternatives', () => {
+      const result = new BaselineChecker({ ...config, dataFile }).checkFeature('flexbox');
+
+      expect(result.discouraged).toEqual({
+        reason: 'Test notice',
+        alternatives: ['grid'],
+        accordingTo: ['https://example.com/notice'],
+        removalDate: undefined
+      });
+      expect(result.alternative).toBe('Use Grid instead');
+      expect(result.suggestion).toContain('discouraged');
+    });
+
+    it('should use the configured severity', () => {
+      expect(new BaselineChecker({ ...config, dataFile }).getDiscouragedSeverity()).toBe('warning');
+      expect(new BaselineChecker({ ...config, dataFile, discouragedSeverity: 'error' }).getDiscouragedSeverity()).toBe('error');
+    });
+  });
+
   describe('getModernizationSuggestions', () => {
     it('should provide modernization suggestions', () => {
       const suggestions = checker.getModernizationSuggestions(['float', 'clearfix']);
@@ -115,8 +437,22 @@ describe('BaselineChecker', () => {
     });
 
     it('should handle camelCase to kebab-case conversion', () => {
-      const result = checker.checkFeature('backgroundColor');
+      const result = checker.checkFeature('aspectRatio');
       expect(result.baseline).not.toBe(null);
+      expect(result.featureId).toBe('aspect-ratio');
+    });
+  });
+
+  describe('getSeverity', () => {
+    it('should grade failing, guarded and discouraged features', () => {
+      const newChecker = new BaselineChecker({ ...config, guardedSeverity: 'warning', discouragedSeverity: 'error' });
+      const discouraged = { reason: 'Deprecated', alternatives: [], accordingTo: [] };
+
+      expect(newChecker.getSeverity({ baseline: 'widely-available', meetsCriteria: true })).toBe('info');
+      expect(newChecker.getSeverity({ baseline: 'newly-available', meetsCriteria: false })).toBe('warning');
+      expect(newChecker.getSeverity({ baseline: 'limited', meetsCriteria: false })).toBe('error');
+      expect(newChecker.getSeverity({ baseline: 'limited', meetsCriteria: false }, "'x' in window")).toBe('warning');
+      expect(newChecker.getSeverity({ baseline: 'widely-available', meetsCriteria: true, discouraged })).toBe('error');
     });
   });
 
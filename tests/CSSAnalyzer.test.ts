@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CSSAnalyzer } from '../src/analyzers/CSSAnalyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { FeatureDataset } from '../src/core/FeatureDataset';
+import { BaselineConfig } from '../src/types';
+
+describe('CSSAnalyzer', () => {
+  let analyzer: CSSAnalyzer;
+  let config: BaselineConfig;
+
+  beforeEach(() => {
+    config = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console'
+    };
+    analyzer = new CSSAnalyzer(new BaselineChecker(config));
+  });
+
+  describe('property values', () => {
+    it('should resolve value-level compat keys', async () => {
+      const result = await analyzer.analyze('.a { display: grid; position: sticky; }', 'test.css');
+      const ids = result.features.map(f => f.featureId);
+
+      expect(ids).toContain('grid');
+      expect(ids).toContain('sticky-positioning');
+    });
+
+    it('should flag a limited value on a widely available property', async () => {
+      const result = await analyzer.analyze('.a { grid-template-rows: subgrid; }', 'test.css');
+
+      const property = result.features.find(f => f.featureId === 'grid');
+      const value = result.features.find(f => f.featureId === 'subgrid');
+
+      expect(property?.severity).toBe('info');
+      expect(value?.feature).toBe('grid-template-rows: subgrid');
+      expect(value?.matchedKey).toBe('css.properties.grid-template-rows.subgrid');
+      expect(value?.severity).not.toBe('info');
+    });
+
+    it('should not report values that belong to the property feature', async () => {
+      const result = await analyzer.analyze('.a { grid-template-columns: repeat(2, 1fr); }', 'test.css');
+
+      expect(result.features.filter(f => f.featureId === 'grid')).toHaveLength(1);
+    });
+  });
+
+  describe('@supports guards', () => {
+    it('should downgrade features tested by an enclosing @supports condition', async () => {
+      const css = '@supports (grid-template-rows: subgrid) {\n  .a { grid-template-rows: subgrid; }\n}\n.b { grid-template-rows: subgrid; }';
+      const result = await analyzer.analyze(css, 'test.css');
+      const [guarded, unguarded] = result.features.filter(f => f.featureId === 'subgrid' && f.line > 1);
+
+      expect(guarded).toMatchObject({ line: 2, severity: 'info', guard: '@supports (grid-template-rows: subgrid)' });
+      expect(unguarded.guard).toBeUndefined();
+      expect(unguarded.severity).not.toBe('info');
+    });
+
+    it('should treat @supports not blocks as fallbacks', async () => {
+      const result = await analyzer.analyze('@supports not (display: grid) { .a { grid-template-rows: subgrid; } }', 'test.css');
+
+      expect(result.features.find(f => f.featureId === 'subgrid')?.guard).toBe('@supports not (display: grid)');
+    });
+
+    it('should not guard features the condition does not test', async () => {
+      const result = await analyzer.analyze('@supports (display: grid) { .a { grid-template-rows: subgrid; } }', 'test.css');
+
+      expect(result.features.find(f => f.featureId === 'subgrid')?.guard).toBeUndefined();
+    });
+
+    it('should use the configured guarded severity', async () => {
+      analyzer = new CSSAnalyzer(new BaselineChecker({ ...config, guardedSeverity: 'warning' }));
+      const result = await analyzer.analyze('@supports not (display: grid) { .a { grid-template-rows: subgrid; } }', 'test.css');
+
+      expect(result.features.find(f => f.featureId === 'subgrid')?.severity).toBe('warning');
+    });
+  });
+
+  describe('discouraged features', () => {
+    it('should report them with the configured severity and alternatives', async () => {
+      const snapshot = JSON.parse(FeatureDataset.bundled().toSnapshot());
+      snapshot.features['sticky-positioning'].discouraged = { according_to: [], alternatives: ['grid'] };
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineflow-'));
+      const dataFile = path.join(dir, 'snapshot.json');
+      fs.writeFileSync(dataFile, JSON.stringify(snapshot));
+
+      const checker = new BaselineChecker({ ...config, dataFile, discouragedSeverity: 'error' });
+      const result = await new CSSAnalyzer(checker).analyze('.a { position: sticky; }', 'test.css');
+      fs.rmSync(dir, { recursive: true, force: true });
+
+      const sticky = result.features.find(f => f.featureId === 'sticky-positioning');
+      expect(sticky?.severity).toBe('error');
+      expect(sticky?.alternative).toBe('Use Grid instead');
+    });
+  });
+
+  describe('selectors', () => {
+    it('should map pseudo-classes and pseudo-elements to their features', async () => {
+      const css = [
+        '.card:has(> img) {}',
+        ':is(h1, h2):where(.title) {}',
+        'button:focus-visible {}',
+        'dialog::backdrop {}',
+        'li:nth-child(2 of .item) {}'
+      ].join('\n');
+
+      const result = await analyzer.analyze(css, 'test.css');
+
+      expect(result.features.map(f => [f.line, f.featureId])).toEqual([
+        [1, 'has'],
+        [2, 'is'],
+        [2, 'where'],
+        [3, 'focus-visible'],
+        [4, 'dialog'],
+        [5, 'nth-child-of']
+      ]);
+    });
+
+    it('should report native nesting but not top-level rules', async () => {
+      const css = [
+        '@media (width > 40em) { .card {} }',
+        '.card {',
+        '  &:hover { color: red; }',
+        '  .title { color: blue; }',
+        '  @media (width > 40em) { padding: 0; }',
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.analyze(css, 'test.css');
+      const nesting = result.features.filter(f => f.featureId === 'nesting');
+
+      expect(nesting.map(f => f.line)).toEqual([3, 4, 5]);
+    });
+
+    it('should leave preprocessor nesting alone', async () => {
+      const result = await analyzer.analyze('.card { &:hover { color: red; } }', 'test.scss');
+
+      expect(result.features.find(f => f.featureId === 'nesting')).toBeUndefined();
+    });
+  });
+
+  describe('functions', () => {
+    it('should map color and math functions to their features', async () => {
+      const css = [
+        '.a {',
+        '  color: oklch(70% 0.1 200);',
+        '  background: color-mix(in oklab, red, blue);',
+        '  border-color: light-dark(#000, #fff);',
+        '  width: round(up, 10.5px, 1px);',
+        '  rotate: atan2(1, 2);',
+        '  height: clamp(1rem, 2vw, 3rem);',
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.analyze(css, 'test.css');
+      const ids = (line: number) => result.features.filter(f => f.line === line).map(f => f.featureId);
+
+      expect(ids(2)).toContain('oklab');
+      expect(ids(3)).toContain('color-mix');
+      expect(ids(4)).toContain('light-dark');
+      expect(ids(5)).toContain('round-mod-rem');
+      expect(ids(6)).toContain('trig-functions');
+      expect(ids(7)).toContain('min-max-clamp');
+      expect(result.features.find(f => f.feature === 'round')?.featureId).toBe('round-mod-rem');
+    });
+
+    it('should report relative color syntax', async () => {
+      const result = await analyzer.analyze('.a { color: rgb(from var(--brand) r g b / 50%); }', 'test.css');
+      const ids = result.features.map(f => f.featureId);
+
+      expect(ids).toContain('rgb');
+      expect(ids).toContain('relative-color');
+    });
+
+    it('should ignore function-like text in strings and URLs', async () => {
+      const result = await analyzer.analyze('.a { content: "sin(x)"; background: url(icons/round(1).svg); }', 'test.css');
+
+      expect(result.features.find(f => ['trig-functions', 'round-mod-rem'].includes(f.featureId))).toBeUndefined();
+    });
+  });
+
+  describe('preprocessors', () => {
+    it('should parse SCSS and skip Sass-only constructs', async () => {
+      const scss = [
+        "@use 'sass:math';",
+        '$gap: 1rem; // spacing',
+        '@mixin stack($space) {',
+        '  display: grid;',
+        '}',
+        '@function half($value) { @return math.div($value, 2); }',
+        '.card {',
+        '  @include stack($gap);',
+        '  color: darken($brand, 10%);',
+        '  &:has(img) { aspect-ratio: 1; }',
+        '  &__title { font: { family: serif; } }',
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.analyze(scss, 'card.scss');
+      const queries = result.diagnostics?.map(d => d.query) || [];
+
+      expect(result.features.find(f => f.featureId === 'grid')?.line).toBe(4);
+      expect(result.features.find(f => f.featureId === 'has')?.context).toBe('selector: .card:has(img)');
+      expect(result.features.find(f => f.featureId === 'aspect-ratio')?.line).toBe(10);
+      expect(result.features.find(f => f.featureId === 'nesting')).toBeUndefined();
+      expect(result.features.find(f => f.feature === 'font-family')).toBeDefined();
+      expect(queries.filter(q => ['@use', '@mixin', '@include', '@function', '$gap', 'darken', 'family'].includes(q))).toEqual([]);
+    });
+
+    it('should parse indented Sass', async () => {
+      const sass = [
+        '$brand: #333',
+        '.card',
+        '  color: $brand',
+        '  &:has(img)',
+        '    aspect-ratio: 1',
+        '  @media (prefers-color-scheme: dark)',
+        '    aspect-ratio: 2'
+      ].join('\n');
+
+      const result = await analyzer.analyze(sass, 'card.sass');
+      const ids = result.features.map(f => f.featureId);
+
+      expect(ids).toEqual(expect.arrayContaining(['has', 'aspect-ratio', 'prefers-color-scheme']));
+      expect(result.features.find(f => f.featureId === 'has')?.context).toBe('selector: .card:has(img)');
+    });
+
+    it('should parse Less and skip variables and mixin calls', async () => {
+      const less = [
+        '@brand: #333;',
+        '.bordered() { border-radius: 4px; }',
+        '.card {',
+        '  .bordered();',
+        '  color: darken(@brand, 10%);',
+        '  &:has(img) { aspect-ratio: 1; }',
+        '}'
+      ].join('\n');
+
+      const result = await analyzer.analyze(less, 'card.less');
+      const queries = result.diagnostics?.map(d => d.query) || [];
+
+      expect(result.features.find(f => f.featureId === 'has')?.context).toBe('selector: .card:has(img)');
+      expect(result.features.find(f => f.featureId === 'nesting')).toBeUndefined();
+      expect(queries.filter(q => ['@brand', 'darken', '.bordered'].includes(q))).toEqual([]);
+    });
+  });
+});
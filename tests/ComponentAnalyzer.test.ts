@@ -0,0 +1,73 @@
+import { ComponentAnalyzer } from '../src/analyzers/ComponentAnalyzer';
+import { HTMLAnalyzer } from '../src/analyzers/HTMLAnalyzer';
+import { CSSAnalyzer } from '../src/analyzers/CSSAnalyzer';
+import { SimpleJavaScriptAnalyzer } from '../src/analyzers/SimpleJavaScriptAnalyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { BaselineConfig } from '../src/types';
+
+describe('ComponentAnalyzer', () => {
+  let analyzer: ComponentAnalyzer;
+
+  beforeEach(() => {
+    const config: BaselineConfig = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console'
+    };
+    const checker = new BaselineChecker(config);
+    const cssAnalyzer = new CSSAnalyzer(checker);
+    const jsAnalyzer = new SimpleJavaScriptAnalyzer(checker);
+    analyzer = new ComponentAnalyzer(new HTMLAnalyzer(checker, cssAnalyzer, jsAnalyzer), cssAnalyzer, jsAnalyzer);
+  });
+
+  it('should analyze Svelte scripts, styles and markup with positions from the .svelte file', async () => {
+    const component = [
+      '<script lang="ts">',
+      '  const data: Response = await fetch("/api");',
+      '</script>',
+      '',
+      '{#if open}',
+      '  <search>{message}</search>',
+      '{/if}',
+      '',
+      '<style>',
+      '  .card { position: sticky; }',
+      '  :global(.title) { color: red; }',
+      '</style>'
+    ].join('\n');
+
+    const result = await analyzer.analyze(component, 'Card.svelte');
+    const find = (id: string) => result.features.find(f => f.featureId === id);
+
+    expect(result.type).toBe('svelte');
+    expect(find('fetch')?.line).toBe(2);
+    expect(find('search')?.line).toBe(6);
+    expect(find('search')?.column).toBe(3);
+    expect(find('sticky-positioning')?.line).toBe(10);
+    expect(result.features.every(f => f.file === 'Card.svelte')).toBe(true);
+    expect(result.diagnostics?.find(d => d.query === ':global')).toBeUndefined();
+  });
+
+  it('should analyze Astro frontmatter as code rather than markup', async () => {
+    const component = [
+      '---',
+      'const data = await fetch("/api");',
+      '---',
+      '<search>{data.title}</search>',
+      '<script>',
+      '  navigator.clipboard.writeText("hi");',
+      '</script>'
+    ].join('\n');
+
+    const result = await analyzer.analyze(component, 'Page.astro');
+    const find = (id: string) => result.features.find(f => f.featureId === id);
+
+    expect(result.type).toBe('astro');
+    expect(find('fetch')?.line).toBe(2);
+    expect(find('search')?.line).toBe(4);
+    expect(find('async-clipboard')?.line).toBe(6);
+  });
+});
\ No newline at end of file
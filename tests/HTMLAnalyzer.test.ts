@@ -0,0 +1,106 @@
+import { HTMLAnalyzer } from '../src/analyzers/HTMLAnalyzer';
+import { CSSAnalyzer } from '../src/analyzers/CSSAnalyzer';
+import { SimpleJavaScriptAnalyzer } from '../src/analyzers/SimpleJavaScriptAnalyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { BaselineConfig } from '../src/types';
+
+describe('HTMLAnalyzer', () => {
+  let analyzer: HTMLAnalyzer;
+
+  beforeEach(() => {
+    const config: BaselineConfig = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console'
+    };
+    const checker = new BaselineChecker(config);
+    analyzer = new HTMLAnalyzer(checker, new CSSAnalyzer(checker), new SimpleJavaScriptAnalyzer(checker));
+  });
+
+  describe('elements and attributes', () => {
+    it('should detect elements, attributes and attribute values that fail the target', async () => {
+      const html = [
+        '<p>Hi</p>',
+        '<search><input></search>',
+        '<div popover inert>Menu</div>',
+        '<img src="a.png" loading="lazy">',
+        '<template shadowrootmode="open"><slot></slot></template>'
+      ].join('\n');
+
+      const result = await analyzer.analyze(html, 'index.html');
+      const find = (id: string) => result.features.find(f => f.featureId === id);
+
+      expect(find('search')?.line).toBe(2);
+      expect(find('popover')?.feature).toBe('[popover]');
+      expect(find('inert')?.line).toBe(3);
+      expect(find('loading-lazy')?.feature).toBe('<img loading>');
+      expect(find('declarative-shadow-dom')?.line).toBe(5);
+    });
+
+    it('should skip markup that meets the target', async () => {
+      const html = [
+        '<div><a href="/">Home</a></div>',
+        '<img src="a.png" alt="">',
+        '<dialog open>Hi</dialog>',
+        '<script type="module" src="app.js"></script>'
+      ].join('\n');
+
+      const result = await analyzer.analyze(html, 'index.html');
+
+      expect(result.features).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
+    });
+
+    it('should report keys missing from the dataset as diagnostics', async () => {
+      const html = [
+        '<input class="name" data-id="1" aria-label="Name">',
+        '<my-widget v-if="ok"></my-widget>'
+      ].join('\n');
+
+      const result = await analyzer.analyze(html, 'index.html');
+
+      expect(result.diagnostics.map(d => [d.query, d.status, d.locations[0].line])).toEqual([
+        ['<input>', 'unresolved', 1],
+        ['<input class>', 'unresolved', 1]
+      ]);
+    });
+  });
+
+  describe('inline code', () => {
+    it('should analyze style blocks, style attributes and scripts with file positions', async () => {
+      const html = [
+        '<html>',
+        '<head>',
+        '<style>',
+        '  .a { position: sticky; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        '  <p style="color: red; aspect-ratio: 1">Text</p>',
+        '  <script>',
+        '    const data = await fetch("/api");',
+        '  </script>',
+        '</body>',
+        '</html>'
+      ].join('\n');
+
+      const result = await analyzer.analyze(html, 'index.html');
+      const find = (id: string) => result.features.find(f => f.featureId === id);
+
+      expect(find('sticky-positioning')?.line).toBe(4);
+      expect(find('aspect-ratio')).toMatchObject({ line: 8, column: 25 });
+      expect(find('fetch')?.line).toBe(10);
+      expect(result.type).toBe('html');
+    });
+
+    it('should skip scripts that are not JavaScript', async () => {
+      const result = await analyzer.analyze('<script type="importmap">{ "imports": { "a": "./a.js" } }</script>', 'index.html');
+
+      expect(result.features.find(f => f.featureId === 'import-maps')).toBeDefined();
+      expect(result.diagnostics).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,348 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JavaScriptAnalyzer } from '../src/analyzers/JavaScriptAnalyzer';
+import { SimpleJavaScriptAnalyzer } from '../src/analyzers/SimpleJavaScriptAnalyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { FeatureDataset } from '../src/core/FeatureDataset';
+import { BaselineConfig, FileAnalysis } from '../src/types';
+
+describe('JavaScriptAnalyzer', () => {
+  let analyzer: JavaScriptAnalyzer;
+  let config: BaselineConfig;
+
+  beforeEach(() => {
+    config = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console'
+    };
+    const checker = new BaselineChecker(config);
+    analyzer = new JavaScriptAnalyzer(checker, new SimpleJavaScriptAnalyzer(checker));
+  });
+
+  it('should ignore feature syntax inside strings and comments', async () => {
+    const code = [
+      '/** Computes 2 ** 8 */',
+      'const arrow = "=>";'
+    ].join('\n');
+
+    const result = await analyzer.analyze(code, 'test.js');
+
+    expect(result.engine).toBe('ast');
+    expect(result.features.find(f => f.feature === 'exponentiation-operator')).toBeUndefined();
+    expect(result.features.find(f => f.feature === 'arrow-functions')).toBeUndefined();
+  });
+
+  it('should report 1-based columns', async () => {
+    const result = await analyzer.analyze('const data = await fetch("/api");', 'test.js');
+
+    expect(result.features.find(f => f.featureId === 'fetch')?.column).toBe(20);
+  });
+
+  it('should fall back to the regex engine when a file cannot be parsed', async () => {
+    const result = await analyzer.analyze('const data = await fetch("/api") +;', 'test.js');
+
+    expect(result.engine).toBe('regex');
+    expect(result.fallbackReason).toMatch(/Unexpected token/);
+    expect(result.features.find(f => f.featureId === 'fetch')).toBeDefined();
+  });
+
+  describe('CSS-in-JS', () => {
+    it('should analyze styled-components templates with interpolations', async () => {
+      const code = [
+        'const Card = styled.div`',
+        '  ${shadow}',
+        '  padding: ${p => p.space}px;',
+        '  position: sticky;',
+        '`;'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'Card.js');
+
+      expect(result.features.find(f => f.featureId === 'sticky-positioning')).toMatchObject({ file: 'Card.js', line: 4, column: 3 });
+    });
+
+    it('should map JSX style props and style assignments to CSS properties', async () => {
+      const code = [
+        'const box = <div style={{ aspectRatio: "1 / 1" }} />;',
+        'element.style.aspectRatio = ratio;'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'Box.jsx');
+      const usages = result.features.filter(f => f.featureId === 'aspect-ratio');
+
+      expect(usages.map(f => [f.line, f.column])).toEqual([[1, 27], [2, 15]]);
+    });
+
+    it('should leave templates with other tags alone', async () => {
+      const result = await analyzer.analyze('const query = sql`position: sticky`;', 'query.js');
+
+      expect(result.features.find(f => f.featureId === 'sticky-positioning')).toBeUndefined();
+    });
+  });
+
+  describe('feature-detection guards', () => {
+    const clipboardUsage = async (code: string) => {
+      const result = await analyzer.analyze(code, 'copy.js');
+      return result.features.filter(f => f.featureId === 'async-clipboard');
+    };
+
+    it('should recognize if-blocks, ternaries and && tests', async () => {
+      const usages = await clipboardUsage([
+        "if ('clipboard' in navigator) navigator.clipboard.writeText(text);",
+        "if (typeof navigator.clipboard !== 'undefined') { navigator.clipboard.writeText(text); }",
+        'const copy = navigator.clipboard ? () => navigator.clipboard.writeText(text) : fallback;',
+        'navigator.clipboard && navigator.clipboard.writeText(text);'
+      ].join('\n'));
+
+      expect(usages).toHaveLength(7);
+      expect(usages.every(f => f.guard && f.severity === 'info')).toBe(true);
+      expect(usages[0].guard).toBe("if ('clipboard' in navigator)");
+    });
+
+    it('should recognize optional calls and early returns', async () => {
+      const usages = await clipboardUsage([
+        'navigator.clipboard?.writeText(text);',
+        'function copy() {',
+        '  if (!navigator.clipboard) return;',
+        '  navigator.clipboard.writeText(text);',
+        '}'
+      ].join('\n'));
+
+      expect(usages.map(f => f.guard)).toEqual(['optional chaining (?.)', 'if (!navigator.clipboard)', 'if (!navigator.clipboard) return']);
+    });
+
+    it('should treat optional calls of built-in functions as guarded', async () => {
+      const code = [
+        'const groups = Object.groupBy?.(items, item => item.type);',
+        'const deferred = Promise.withResolvers?.();'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'optional.js');
+      const usages = result.features.filter(f => ['array-group', 'promise-withresolvers'].includes(f.featureId));
+
+      expect(usages.map(f => [f.line, f.featureId, f.guard, f.severity])).toEqual([
+        [1, 'array-group', 'optional chaining (?.)', 'info'],
+        [2, 'promise-withresolvers', 'optional chaining (?.)', 'info']
+      ]);
+    });
+
+    it('should not treat optional chains before the call as guarded', async () => {
+      const code = [
+        'const groups = Object?.groupBy(items, item => item.type);',
+        'const sorted = items?.toSorted();'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'optional.js');
+      const usages = result.features.filter(f => ['array-group', 'array-by-copy'].includes(f.featureId));
+
+      expect(usages.map(f => [f.line, f.featureId])).toEqual([[1, 'array-group'], [2, 'array-by-copy']]);
+      expect(usages.every(f => !f.guard && f.severity !== 'info')).toBe(true);
+    });
+
+    it('should not treat the fallback branch or unrelated tests as guarded', async () => {
+      const usages = await clipboardUsage([
+        "if ('clipboard' in navigator) {} else { navigator.clipboard.writeText(text); }",
+        'if (navigator.share) navigator.clipboard.writeText(text);'
+      ].join('\n'));
+
+      expect(usages).toHaveLength(2);
+      expect(usages.every(f => !f.guard && f.severity !== 'info')).toBe(true);
+    });
+  });
+
+  describe('scope awareness', () => {
+    it('should ignore imported and local names that shadow platform globals', async () => {
+      const code = [
+        "import fetch from 'node-fetch';",
+        'const navigator = createNavigator();',
+        'fetch("/api");',
+        'navigator.clipboard.writeText(text);'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'server.js');
+
+      expect(result.features.filter(f => ['fetch', 'async-clipboard'].includes(f.featureId))).toHaveLength(0);
+    });
+
+    it('should still report unbound globals', async () => {
+      const result = await analyzer.analyze('function load(url) { return fetch(url); }', 'client.js');
+
+      expect(result.features.find(f => f.featureId === 'fetch')).toBeDefined();
+    });
+
+    it('should report includes once, by receiver kind where it is evident', async () => {
+      const code = [
+        "const name = 'baseline';",
+        "name.includes('line');",
+        'function has(list: string[], item: string) { return list.includes(item); }',
+        'items.includes(item);'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'includes.ts');
+      const includes = result.features.filter(f => f.feature.endsWith('-includes'));
+
+      expect(includes.map(f => [f.line, f.feature])).toEqual([
+        [2, 'string-includes'],
+        [3, 'array-includes'],
+        [4, 'array-includes']
+      ]);
+    });
+  });
+
+  describe('modern built-ins and syntax', () => {
+    it.each([
+      ['structuredClone(state);', 'structured-clone'],
+      ['[3, 1, 2].at(-1);', 'array-at'],
+      ['[3, 1, 2].findLast(n => n > 1);', 'array-findlast'],
+      ['[3, 1, 2].findLastIndex(n => n > 1);', 'array-findlast'],
+      ['[3, 1, 2].toSorted();', 'array-by-copy'],
+      ['[3, 1, 2].with(0, 4);', 'array-by-copy'],
+      ['Object.groupBy(items, item => item.type);', 'array-group'],
+      ['Map.groupBy(items, item => item.type);', 'array-group'],
+      ['Promise.withResolvers();', 'promise-withresolvers'],
+      ['Promise.any(requests);', 'promise-any'],
+      ['Promise.allSettled(requests);', 'promise-allsettled'],
+      ['new Set([1]).union(other);', 'set-methods'],
+      ['Array.fromAsync(stream);', 'array-fromasync'],
+      ["import data from './data.json' with { type: 'json' };", 'json-modules'],
+      ["import sheet from './styles.css' with { type: 'css' };", 'css-modules']
+    ])('should report %s as %s', async (code, featureId) => {
+      const result = await analyzer.analyze(code, 'modern.js');
+
+      expect(result.features.find(f => f.featureId === featureId)).toBeDefined();
+    });
+
+    it('should report syntax the data has no feature for as unresolved lookups', async () => {
+      const code = [
+        '#!/usr/bin/env node',
+        'class Counter {',
+        '  #count = 0;',
+        '  static { Counter.instances = 0; }',
+        '  #increment() { this.#count++; }',
+        '  static isCounter(value) { return #count in value; }',
+        '}',
+        'await Counter.load();'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'counter.js');
+      const lookup = (query: string) => {
+        const diagnostic = result.diagnostics?.find(d => d.query === query);
+        return diagnostic && [diagnostic.status, diagnostic.locations.map(l => l.line)];
+      };
+
+      expect(lookup('javascript.grammar.hashbang_comments')).toEqual(['unresolved', [1]]);
+      expect(lookup('javascript.classes.private_class_fields')).toEqual(['unresolved', [3]]);
+      expect(lookup('javascript.classes.static_initialization_blocks')).toEqual(['unresolved', [4]]);
+      expect(lookup('javascript.classes.private_class_methods')).toEqual(['unresolved', [5]]);
+      expect(lookup('javascript.classes.private_class_fields_in')).toEqual(['unresolved', [6]]);
+      expect(lookup('javascript.operators.await.top_level')).toEqual(['unresolved', [8]]);
+    });
+
+    it('should not report await inside functions as top-level await', async () => {
+      const result = await analyzer.analyze('async function load() { await fetch("/api"); }', 'load.js');
+
+      expect(result.diagnostics?.find(d => d.query === 'javascript.operators.await.top_level')).toBeUndefined();
+    });
+
+    it('should not report Set methods on imported modules', async () => {
+      const result = await analyzer.analyze("import _ from 'lodash';\n_.union(a, b);", 'merge.js');
+
+      expect(result.features.find(f => f.featureId === 'set-methods')).toBeUndefined();
+    });
+  });
+
+  describe('regular expressions', () => {
+    const lookups = (result: FileAnalysis) => (result.diagnostics || [])
+      .filter(d => d.query.includes('RegExp') || d.query.includes('regular_expressions'))
+      .flatMap(d => d.locations.map(l => [l.line, l.column, d.query, d.status]));
+
+    it('should report pattern and flag features at the literal', async () => {
+      const code = [
+        'const price = /(?<=\\$)(?<amount>\\d+)/d;',
+        'const letters = /\\p{Letter}+/u;',
+        'const dots = /a.b/s;'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'patterns.js');
+
+      expect(lookups(result)).toEqual([
+        [1, 15, 'javascript.regular_expressions.lookbehind_assertion', 'unresolved'],
+        [1, 15, 'javascript.regular_expressions.named_capturing_group', 'unresolved'],
+        [1, 15, 'javascript.builtins.RegExp.hasIndices', 'unresolved'],
+        [2, 17, 'javascript.regular_expressions.unicode_character_class_escape', 'unresolved'],
+        [3, 14, 'javascript.builtins.RegExp.dotAll', 'unresolved']
+      ]);
+    });
+
+    it('should not pass keys that only resolve to the regexp feature', async () => {
+      const result = await analyzer.analyze('const words = /(?<w>a)|(?<w>b)(?i:c)/v;', 'patterns.js');
+
+      expect(result.features.find(f => f.featureId === 'regexp')).toBeUndefined();
+      expect(lookups(result).map(([, , query]) => query)).toEqual([
+        'javascript.regular_expressions.named_capturing_group',
+        'javascript.regular_expressions.named_capturing_group.duplicate_named_capturing_groups',
+        'javascript.regular_expressions.modifier',
+        'javascript.builtins.RegExp.unicodeSets'
+      ]);
+    });
+
+    it('should read constant patterns passed to RegExp', async () => {
+      const code = [
+        "new RegExp('(?<!-)\\\\d+');",
+        "RegExp('[\\\\p{L}--[a-z]]', 'v');",
+        'new RegExp(String.raw`(?<year>\\d{4})`);',
+        'new RegExp(source, flags);'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'patterns.js');
+
+      expect(lookups(result)).toEqual([
+        [1, 12, 'javascript.regular_expressions.lookbehind_assertion', 'unresolved'],
+        [2, 8, 'javascript.regular_expressions.unicode_character_class_escape', 'unresolved'],
+        [2, 27, 'javascript.builtins.RegExp.unicodeSets', 'unresolved'],
+        [3, 12, 'javascript.regular_expressions.named_capturing_group', 'unresolved']
+      ]);
+    });
+
+    it('should report keys with a feature of their own by its status', async () => {
+      const snapshot = JSON.parse(FeatureDataset.bundled().toSnapshot());
+      const regexp = snapshot.features.regexp;
+      regexp.compat_features = regexp.compat_features.filter((key: string) => key !== 'javascript.builtins.RegExp.unicodeSets');
+      snapshot.features['regexp-unicode-sets'] = {
+        ...regexp,
+        name: 'RegExp v flag',
+        compat_features: ['javascript.builtins.RegExp.unicodeSets'],
+        status: { baseline: false, support: { chrome: '112' } }
+      };
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineflow-'));
+      const dataFile = path.join(dir, 'snapshot.json');
+      fs.writeFileSync(dataFile, JSON.stringify(snapshot));
+
+      try {
+        const checker = new BaselineChecker({ ...config, dataFile });
+        const pinned = new JavaScriptAnalyzer(checker, new SimpleJavaScriptAnalyzer(checker));
+        const result = await pinned.analyze('const sets = /[\\w--\\d]/v;', 'patterns.js');
+
+        expect(result.features.find(f => f.featureId === 'regexp-unicode-sets')).toMatchObject({
+          baseline: 'limited',
+          severity: 'error',
+          context: '/[\\w--\\d]/v'
+        });
+        expect(lookups(result)).toEqual([]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should not mistake escapes and character classes for groups', async () => {
+      const result = await analyzer.analyze('const literal = /\\(?<=[(?<]x\\p{L}/;', 'patterns.js');
+
+      expect(lookups(result)).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
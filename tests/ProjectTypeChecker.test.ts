@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JavaScriptAnalyzer } from '../src/analyzers/JavaScriptAnalyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { ProjectTypeChecker } from '../src/core/ProjectTypeChecker';
+import { BaselineConfig } from '../src/types';
+
+describe('ProjectTypeChecker', () => {
+  let projectPath: string;
+  let analyzer: JavaScriptAnalyzer;
+
+  const source = [
+    'class Basket { includes(item: string) { return true; } }',
+    'declare const name: string;',
+    'declare const items: number[];',
+    'declare const basket: Basket;',
+    "name.includes('a');",
+    'items.includes(1);',
+    "basket.includes('apple');"
+  ].join('\n');
+
+  beforeAll(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'baselineflow-'));
+    fs.writeFileSync(path.join(projectPath, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true, lib: ['es2022'] } }));
+    fs.writeFileSync(path.join(projectPath, 'index.ts'), source);
+  });
+
+  beforeEach(() => {
+    const config: BaselineConfig = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console'
+    };
+    analyzer = new JavaScriptAnalyzer(new BaselineChecker(config));
+  });
+
+  it('should map methods by receiver type and skip calls on project types', async () => {
+    analyzer.setTypeChecker(ProjectTypeChecker.load(projectPath));
+
+    const result = await analyzer.analyze(source, path.join(projectPath, 'index.ts'));
+    const includes = result.features.filter(f => f.feature.endsWith('-includes'));
+
+    expect(includes.map(f => [f.line, f.feature])).toEqual([
+      [5, 'string-includes'],
+      [6, 'array-includes']
+    ]);
+  });
+
+  it('should report a missing tsconfig', () => {
+    expect(() => ProjectTypeChecker.load(projectPath, 'tsconfig.missing.json')).toThrow(/Failed to read TypeScript config/);
+  });
+});
\ No newline at end of file
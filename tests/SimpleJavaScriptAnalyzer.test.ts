@@ -0,0 +1,107 @@
+import { SimpleJavaScriptAnalyzer } from '../src/analyzers/SimpleJavaScriptAnalyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { BaselineConfig } from '../src/types';
+
+describe('SimpleJavaScriptAnalyzer', () => {
+  let analyzer: SimpleJavaScriptAnalyzer;
+
+  beforeEach(() => {
+    const config: BaselineConfig = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console',
+      detectors: [
+        { call: 'ourFetch', feature: 'fetch' },
+        { call: 'clipboard.copy', feature: 'async-clipboard' }
+      ]
+    };
+    analyzer = new SimpleJavaScriptAnalyzer(new BaselineChecker(config));
+  });
+
+  describe('custom detectors', () => {
+    it('should report calls to configured helpers', async () => {
+      const result = await analyzer.analyze('const data = await ourFetch("/api");\nutils.clipboard.copy(text);', 'test.js');
+
+      const fetchUsage = result.features.find(f => f.feature === 'ourFetch');
+      const clipboardUsage = result.features.find(f => f.feature === 'clipboard.copy');
+
+      expect(fetchUsage?.featureId).toBe('fetch');
+      expect(fetchUsage?.line).toBe(1);
+      expect(clipboardUsage?.featureId).toBe('async-clipboard');
+      expect(clipboardUsage?.line).toBe(2);
+    });
+
+    it('should not match identifiers that merely contain the helper name', async () => {
+      const result = await analyzer.analyze('myOurFetch("/api");', 'test.js');
+
+      expect(result.features.find(f => f.feature === 'ourFetch')).toBeUndefined();
+    });
+  });
+
+  describe('modern built-ins and syntax', () => {
+    it('should report newer built-ins', async () => {
+      const code = [
+        'const copy = structuredClone(state);',
+        'const groups = Object.groupBy(items, item => item.type);',
+        'const { promise, resolve } = Promise.withResolvers();',
+        'const all = first.union(second);',
+        'const sorted = items.toSorted();'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'test.js');
+      const lineOf = (id: string) => result.features.find(f => f.featureId === id)?.line;
+
+      expect(lineOf('structured-clone')).toBe(1);
+      expect(lineOf('array-group')).toBe(2);
+      expect(lineOf('promise-withresolvers')).toBe(3);
+      expect(lineOf('set-methods')).toBe(4);
+      expect(lineOf('array-by-copy')).toBe(5);
+    });
+
+    it('should report newer syntax', async () => {
+      const code = [
+        '#!/usr/bin/env node',
+        "import config from './config.json' with { type: 'json' };",
+        'class Store {',
+        '  #items = [];',
+        '  static { Store.ready = true; }',
+        '}',
+        'const store = await Store.load();'
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'test.js');
+      const lookups = result.diagnostics?.map(d => [d.locations[0].line, d.query, d.status]);
+
+      expect(result.features.find(f => f.featureId === 'json-modules')?.line).toBe(2);
+      expect(lookups).toEqual(expect.arrayContaining([
+        [1, 'javascript.grammar.hashbang_comments', 'unresolved'],
+        [4, 'javascript.classes.private_class_fields', 'unresolved'],
+        [5, 'javascript.classes.static_initialization_blocks', 'unresolved'],
+        [7, 'javascript.operators.await.top_level', 'unresolved']
+      ]));
+    });
+  });
+
+  describe('regular expressions', () => {
+    it('should report features of regex literals and RegExp calls', async () => {
+      const code = [
+        'const price = /(?<=\\$)\\d+/;',
+        'const total = a / b / c;',
+        "const word = new RegExp('\\\\p{L}+', 'v');"
+      ].join('\n');
+
+      const result = await analyzer.analyze(code, 'test.js');
+
+      // The bundled data only knows these as part of the regexp feature, which has no status for them
+      expect(result.features.find(f => f.featureId === 'regexp')).toBeUndefined();
+      expect(result.diagnostics?.map(d => [d.locations[0].line, d.query, d.status])).toEqual([
+        [1, 'javascript.regular_expressions.lookbehind_assertion', 'unresolved'],
+        [3, 'javascript.regular_expressions.unicode_character_class_escape', 'unresolved'],
+        [3, 'javascript.builtins.RegExp.unicodeSets', 'unresolved']
+      ]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { VueAnalyzer } from '../src/analyzers/VueAnalyzer';
+import { HTMLAnalyzer } from '../src/analyzers/HTMLAnalyzer';
+import { CSSAnalyzer } from '../src/analyzers/CSSAnalyzer';
+import { SimpleJavaScriptAnalyzer } from '../src/analyzers/SimpleJavaScriptAnalyzer';
+import { JavaScriptAnalyzer } from '../src/analyzers/JavaScriptAnalyzer';
+import { BaselineChecker } from '../src/core/BaselineChecker';
+import { BaselineConfig } from '../src/types';
+
+describe('VueAnalyzer', () => {
+  let analyzer: VueAnalyzer;
+  let checker: BaselineChecker;
+
+  beforeEach(() => {
+    const config: BaselineConfig = {
+      target: 'widely-available',
+      browsers: ['chrome', 'firefox', 'safari', 'edge'],
+      exceptions: [],
+      ignoreFiles: [],
+      generateFixes: false,
+      reportFormat: 'console'
+    };
+    checker = new BaselineChecker(config);
+    const cssAnalyzer = new CSSAnalyzer(checker);
+    const jsAnalyzer = new SimpleJavaScriptAnalyzer(checker);
+    analyzer = new VueAnalyzer(new HTMLAnalyzer(checker, cssAnalyzer, jsAnalyzer), cssAnalyzer, jsAnalyzer);
+  });
+
+  it('should analyze each block with line numbers from the .vue file', async () => {
+    const sfc = [
+      '<template>',
+      '  <div>',
+      '    <search>{{ message }}</search>',
+      '  </div>',
+      '</template>',
+      '',
+      '<script setup lang="ts">',
+      'const data: Response = await fetch("/api");',
+      '</script>',
+      '',
+      '<style scoped lang="scss">',
+      '.card {',
+      '  position: sticky;',
+      '  :deep(.title) { color: red; }',
+      '}',
+      '</style>'
+    ].join('\n');
+
+    const result = await analyzer.analyze(sfc, 'Card.vue');
+    const find = (id: string) => result.features.find(f => f.featureId === id);
+
+    expect(result.type).toBe('vue');
+    expect(find('search')?.line).toBe(3);
+    expect(find('fetch')?.line).toBe(8);
+    expect(find('sticky-positioning')?.line).toBe(13);
+    expect(result.features.every(f => f.file === 'Card.vue')).toBe(true);
+    expect(result.diagnostics?.find(d => d.query === ':deep')).toBeUndefined();
+  });
+
+  it('should skip blocks in languages it cannot analyze', async () => {
+    const sfc = '<template lang="pug">\ndialog(open)\n</template>\n<style lang="stylus">\n.a\n  position sticky\n</style>\n<i18n>{}</i18n>';
+
+    const result = await analyzer.analyze(sfc, 'Card.vue');
+
+    expect(result.features).toHaveLength(0);
+  });
+
+  it('should report scripts that fall back to the regex engine', async () => {
+    const cssAnalyzer = new CSSAnalyzer(checker);
+    const jsAnalyzer = new JavaScriptAnalyzer(checker, new SimpleJavaScriptAnalyzer(checker));
+    const astAnalyzer = new VueAnalyzer(new HTMLAnalyzer(checker, cssAnalyzer, jsAnalyzer), cssAnalyzer, jsAnalyzer);
+    const sfc = [
+      '<template><p>Hello</p></template>',
+      '',
+      '<script>',
+      'const broken = ;',
+      'fetch("/api");',
+      '</script>'
+    ].join('\n');
+
+    const result = await astAnalyzer.analyze(sfc, 'Broken.vue');
+
+    expect(result.fallbackReason).toBe('Embedded code at 3:9: Unexpected token (2:15)');
+    expect(result.features.find(f => f.featureId === 'fetch')?.line).toBe(5);
+  });
+});
\ No newline at end of file